@@ -0,0 +1,41 @@
+import type { IncomingMessage } from "node:http";
+import {
+  deriveResolvedOptions,
+  resolveStrictJsonOptions,
+  type ResolvedStrictJsonOptions,
+} from "../core/options.js";
+import type { StrictJsonOptions } from "../core/types.js";
+
+/**
+ * Adds a signal that is aborted when the client disconnects, so an
+ * abandoned upload stops consuming CPU. Call `dispose` once parsing ends.
+ */
+export const abortOnDisconnect = (
+  req: IncomingMessage,
+  rawOptions?: StrictJsonOptions,
+): { options: ResolvedStrictJsonOptions; dispose: () => void } => {
+  // Resolved once by the adapters; this only returns them
+  const options = resolveStrictJsonOptions(rawOptions);
+  const controller = new AbortController();
+  const socket = req.socket;
+  // `close` also follows a fully read body; only an unfinished body or a
+  // closed connection means the client went away
+  const onClose = () => {
+    if (!req.complete || socket?.destroyed) controller.abort();
+  };
+  // A signal passed in the options still cancels the parse
+  const onAbort = () => controller.abort();
+  req.on("close", onClose);
+  socket?.on("close", onClose);
+  options.signal?.addEventListener("abort", onAbort, { once: true });
+  if (options.signal?.aborted) controller.abort();
+
+  return {
+    options: deriveResolvedOptions(options, { signal: controller.signal }),
+    dispose: () => {
+      req.off("close", onClose);
+      socket?.off("close", onClose);
+      options.signal?.removeEventListener("abort", onAbort);
+    },
+  };
+};
@@ -0,0 +1,140 @@
+import {
+  BodyTooLargeError,
+  StrictJsonError,
+  WorkerPoolError,
+} from "../core/errors.js";
+import type { IncomingMessage } from "node:http";
+import { getErrorTitle, localizeError, negotiateLocale } from "../core/messages.js";
+import { omitUserInput } from "../core/redaction.js";
+import type {
+  StrictJsonErrorResponse,
+  StrictJsonOptions,
+} from "../core/types.js";
+
+const DEFAULT_PROBLEM_TYPE_BASE_URI =
+  "https://github.com/pas7-studio/nestjs-strict-json/blob/main/docs/errors.md";
+
+const JSON_CONTENT_TYPE = "application/json; charset=utf-8";
+
+/**
+ * HTTP status of the response to a parse error.
+ */
+export const getErrorStatus = (error: StrictJsonError): number => {
+  if (error instanceof BodyTooLargeError) return 413;
+  // The payload was not rejected; the server could not parse it in time
+  if (error instanceof WorkerPoolError) return 503;
+  return 400;
+};
+
+/**
+ * Renders a parse error as RFC 9457 problem details.
+ * @param error - Error thrown by the parser
+ * @param instance - URI reference of the request (e.g., its path)
+ * @param options - Parser options (for `problemTypeBaseUri`)
+ */
+export const createProblemResponse = (
+  error: StrictJsonError,
+  instance: string | undefined,
+  options?: StrictJsonOptions,
+): StrictJsonErrorResponse => {
+  const d = error.details;
+  const status = getErrorStatus(error);
+  const baseUri = options?.problemTypeBaseUri ?? DEFAULT_PROBLEM_TYPE_BASE_URI;
+
+  return {
+    status,
+    headers: { "content-type": "application/problem+json; charset=utf-8" },
+    body: {
+      type: `${baseUri}#${d.code.toLowerCase()}`,
+      title: getErrorTitle(d.code),
+      status,
+      detail: d.message,
+      ...(instance !== undefined ? { instance } : {}),
+      // Extension members
+      code: d.code,
+      ...(d.path !== undefined ? { path: d.path } : {}),
+      ...(d.pointer !== undefined ? { pointer: d.pointer } : {}),
+      ...(d.key !== undefined ? { key: d.key } : {}),
+      ...(typeof d.position === "number"
+        ? { position: d.position, line: d.line, column: d.column }
+        : {}),
+      ...(d.syntaxError ? { syntaxError: d.syntaxError } : {}),
+      ...(d.excerpt ? { excerpt: d.excerpt } : {}),
+      ...(d.violations ? { violations: d.violations } : {}),
+    },
+  };
+};
+
+// Copy of an error of the same class, whose details can be rewritten
+// without touching the error passed to the handlers
+const copyError = <T extends StrictJsonError>(error: T): T => {
+  const copy = Object.assign(Object.create(Object.getPrototypeOf(error) as object) as T, error);
+  Object.defineProperty(copy, "message", { value: error.message, writable: true, configurable: true });
+  Object.defineProperty(copy, "stack", { value: error.stack, writable: true, configurable: true });
+  Object.defineProperty(copy, "details", {
+    value: error.details.violations
+      ? { ...error.details, violations: error.details.violations.map((violation) => ({ ...violation })) }
+      : { ...error.details },
+    enumerable: true,
+  });
+  return copy;
+};
+
+/**
+ * Prepares a parse error for the response. The message is localized
+ * (negotiated from Accept-Language with `localeFromAcceptLanguage`,
+ * otherwise `locale`), key policy explanations (`explainKeyDecisions`) are
+ * dropped and, with `omitInputFromResponses`, user input is removed. The
+ * error passed to the handlers is left untouched.
+ * @returns The error to render, and whether its message was localized
+ */
+export const toResponseError = (
+  error: StrictJsonError,
+  req: IncomingMessage,
+  options?: StrictJsonOptions,
+): { error: StrictJsonError; localized: boolean } => {
+  const locale = options?.localeFromAcceptLanguage
+    ? negotiateLocale(req.headers?.["accept-language"], options.locale)
+    : options?.locale;
+  if (
+    locale === undefined &&
+    !options?.omitInputFromResponses &&
+    !options?.explainKeyDecisions
+  ) {
+    return { error, localized: false };
+  }
+
+  const copy = copyError(error);
+  delete copy.details.explanation;
+  copy.details.violations?.forEach((violation) => delete violation.explanation);
+  if (locale !== undefined) localizeError(copy, locale);
+  if (options?.omitInputFromResponses) omitUserInput(copy, locale);
+  return { error: copy, localized: locale !== undefined };
+};
+
+/**
+ * Renders a parse error with `errorResponseFormatter`, or as problem details
+ * when `errorFormat` is "problem+json".
+ * @returns The response, or undefined when the adapter's own shape applies
+ */
+export const formatErrorResponse = (
+  error: StrictJsonError,
+  req: IncomingMessage,
+  options?: StrictJsonOptions,
+): StrictJsonErrorResponse | undefined => {
+  if (options?.errorResponseFormatter) {
+    const response = options.errorResponseFormatter(error, req);
+    return {
+      ...response,
+      headers: { "content-type": JSON_CONTENT_TYPE, ...response.headers },
+    };
+  }
+
+  if (options?.errorFormat === "problem+json") {
+    // Express rewrites `url` inside routers; `originalUrl` keeps the request's
+    const url = (req as { originalUrl?: string }).originalUrl ?? req.url;
+    return createProblemResponse(error, url, options);
+  }
+
+  return undefined;
+};
@@ -1,17 +1,32 @@
 import type { IncomingMessage, ServerResponse } from "node:http";
-import { parseStrictJson } from "../core/parser.js";
+import { parseStrictJson, parseStrictJsonAsync } from "../core/parser.js";
 import { parseJsonStream, shouldUseStreaming } from "../core/streaming-parser.js";
-import type { StrictJsonOptions } from "../core/types.js";
-import { StrictJsonError } from "../core/errors.js";
+import type { StrictJsonErrorResponse, StrictJsonOptions } from "../core/types.js";
+import {
+  BodyTooLargeError,
+  InvalidJsonError,
+  StrictJsonError,
+  WorkerPoolError,
+} from "../core/errors.js";
+import { reportErrorAsync } from "../core/handlers.js";
+import { resolveStrictJsonOptions } from "../core/options.js";
+import { checkKeyPolicy } from "../core/policy-lint.js";
+import { abortOnDisconnect } from "./disconnect.js";
+import {
+  formatErrorResponse,
+  getErrorStatus,
+  toResponseError,
+} from "./error-response.js";
 
-export type ExpressReq = IncomingMessage & { body?: unknown };
+export type ExpressReq = IncomingMessage & { body?: unknown; originalUrl?: string };
 export type ExpressRes = ServerResponse;
 export type ExpressNext = (err?: unknown) => void;
 
 const readBody = async (
   req: IncomingMessage,
-  maxBodySizeBytes?: number,
+  options?: StrictJsonOptions,
 ): Promise<Buffer> => {
+  const maxBodySizeBytes = options?.maxBodySizeBytes;
   const chunks: Buffer[] = [];
   let total = 0;
 
@@ -19,7 +34,10 @@ const readBody = async (
     const buf = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
     total += buf.byteLength;
     if (typeof maxBodySizeBytes === "number" && total > maxBodySizeBytes) {
-      throw new Error("BODY_TOO_LARGE");
+      // Reported like an oversized body passed to the parser
+      const error = new BodyTooLargeError(maxBodySizeBytes);
+      await reportErrorAsync(error, options);
+      throw error;
     }
     chunks.push(buf);
   }
@@ -27,9 +45,63 @@ const readBody = async (
   return Buffer.concat(chunks);
 };
 
-export const createStrictJsonExpressMiddleware =
-  (options?: StrictJsonOptions) =>
-  async (
+const createDefaultResponse = (
+  error: StrictJsonError,
+  localized: boolean,
+): StrictJsonErrorResponse => {
+  const status = getErrorStatus(error);
+  const headers = { "content-type": "application/json; charset=utf-8" };
+
+  // The payload was not rejected; the server could not parse it in time
+  if (error instanceof WorkerPoolError) {
+    return {
+      status,
+      headers,
+      body: { statusCode: status, code: error.details.code, message: error.details.message },
+    };
+  }
+
+  // Thrown by readBody or by the streaming parser
+  if (error instanceof BodyTooLargeError) {
+    return {
+      status,
+      headers,
+      body: {
+        statusCode: status,
+        code: "STRICT_JSON_BODY_TOO_LARGE",
+        message: localized ? error.details.message : "Request body too large",
+      },
+    };
+  }
+
+  const d = error.details;
+  return {
+    status,
+    headers,
+    body: {
+      statusCode: status,
+      code: d.code,
+      message: d.message,
+      path: d.path,
+      pointer: d.pointer,
+      key: d.key,
+      position: d.position,
+      line: d.line,
+      column: d.column,
+      syntaxError: d.syntaxError,
+      excerpt: d.excerpt,
+      violations: d.violations,
+    },
+  };
+};
+
+export const createStrictJsonExpressMiddleware = (rawOptions?: StrictJsonOptions) => {
+  // Invalid options and a misconfigured key policy are reported once, when
+  // the middleware is created
+  const options = resolveStrictJsonOptions(rawOptions);
+  checkKeyPolicy(options);
+
+  return async (
     req: ExpressReq,
     res: ExpressRes,
     next: ExpressNext,
@@ -40,6 +112,9 @@ export const createStrictJsonExpressMiddleware =
       return;
     }
 
+    const disconnect = abortOnDisconnect(req, options);
+    const parseOptions = disconnect.options;
+
     try {
       // Check content-length header to determine if streaming should be used
       const contentLength = req.headers["content-length"]
@@ -49,82 +124,43 @@ export const createStrictJsonExpressMiddleware =
       // Determine which parsing strategy to use
       if (shouldUseStreaming(contentLength, options)) {
         // Use streaming parser for large payloads
-        const parsed = await parseJsonStream(req, options);
+        const parsed = await parseJsonStream(req, parseOptions);
         req.body = parsed;
         next();
       } else {
-        // Use buffer parser for small payloads (backward compatible)
-        const raw = await readBody(req, options?.maxBodySizeBytes);
-        const parsed = parseStrictJson(raw, options);
+        // Use buffer parser for small payloads (backward compatible);
+        // the async parser hands large payloads to the worker pool
+        const raw = await readBody(req, options);
+        const parsed = options.enableWorkerPool
+          ? await parseStrictJsonAsync(raw, parseOptions)
+          : parseStrictJson(raw, parseOptions);
         req.body = parsed;
         next();
       }
     } catch (e) {
-      if (e instanceof StrictJsonError) {
-        const payload = {
-          statusCode: 400,
-          code: e.details.code,
-          message: e.details.message,
-          path: e.details.path,
-          key: e.details.key,
-          position: e.details.position,
-        };
-        res.statusCode = 400;
-        res.setHeader("content-type", "application/json; charset=utf-8");
-        res.end(JSON.stringify(payload));
+      // Errors other than the parser's (e.g., a broken stream) are answered as invalid JSON
+      const { error, localized } = toResponseError(
+        e instanceof StrictJsonError ? e : new InvalidJsonError("Invalid JSON"),
+        req,
+        options,
+      );
+      let response: StrictJsonErrorResponse;
+      try {
+        response =
+          formatErrorResponse(error, req, options) ?? createDefaultResponse(error, localized);
+      } catch (formatterError) {
+        // A failing errorResponseFormatter is left to the application's error handler
+        next(formatterError);
         return;
       }
 
-      if (e instanceof Error && e.message === "BODY_TOO_LARGE") {
-        res.statusCode = 413;
-        res.setHeader("content-type", "application/json; charset=utf-8");
-        res.end(
-          JSON.stringify({
-            statusCode: 413,
-            code: "STRICT_JSON_BODY_TOO_LARGE",
-            message: "Request body too large",
-          }),
-        );
-        return;
+      res.statusCode = response.status;
+      for (const [name, value] of Object.entries(response.headers)) {
+        res.setHeader(name, value);
       }
-
-      // Handle streaming parser errors
-      if (e instanceof Error) {
-        const isDuplicateKey = e.message.includes("Duplicate key");
-        const isPrototypePollution = e.message.includes("Prototype pollution");
-        const isDepthLimit = e.message.includes("Depth limit");
-        const isKeyNotAllowed = e.message.includes("is not allowed");
-
-        if (isDuplicateKey || isPrototypePollution || isDepthLimit || isKeyNotAllowed) {
-          const code = isDuplicateKey
-            ? "STRICT_JSON_DUPLICATE_KEY"
-            : isPrototypePollution
-              ? "STRICT_JSON_PROTOTYPE_POLLUTION"
-              : isDepthLimit
-                ? "STRICT_JSON_DEPTH_LIMIT"
-                : "STRICT_JSON_INVALID_JSON";
-
-          res.statusCode = 400;
-          res.setHeader("content-type", "application/json; charset=utf-8");
-          res.end(
-            JSON.stringify({
-              statusCode: 400,
-              code,
-              message: e.message,
-            }),
-          );
-          return;
-        }
-      }
-
-      res.statusCode = 400;
-      res.setHeader("content-type", "application/json; charset=utf-8");
-      res.end(
-        JSON.stringify({
-          statusCode: 400,
-          code: "STRICT_JSON_INVALID_JSON",
-          message: "Invalid JSON",
-        }),
-      );
+      res.end(JSON.stringify(response.body));
+    } finally {
+      disconnect.dispose();
     }
   };
+};
@@ -1,10 +1,17 @@
 import {
   BadRequestException,
+  HttpException,
   PayloadTooLargeException,
+  ServiceUnavailableException,
 } from "@nestjs/common";
-import type { StrictJsonOptions } from "../core/types.js";
-import { StrictJsonError } from "../core/errors.js";
-import { parseStrictJson } from "../core/parser.js";
+import type { IncomingMessage } from "node:http";
+import type { StrictJsonErrorResponse, StrictJsonOptions } from "../core/types.js";
+import { StrictJsonError, WorkerPoolError } from "../core/errors.js";
+import { parseStrictJson, parseStrictJsonAsync } from "../core/parser.js";
+import { resolveStrictJsonOptions } from "../core/options.js";
+import { checkKeyPolicy } from "../core/policy-lint.js";
+import { abortOnDisconnect } from "./disconnect.js";
+import { formatErrorResponse, toResponseError } from "./error-response.js";
 
 export type FastifyLikeInstance = {
   addContentTypeParser: (
@@ -16,48 +23,144 @@ export type FastifyLikeInstance = {
       done: (err: Error | null, value?: unknown) => void,
     ) => void,
   ) => void;
+  // Used to send formatted error responses the same way with or without Nest
+  addHook?: (
+    name: "onSend",
+    hook: (
+      request: unknown,
+      reply: { header: (name: string, value: string) => unknown },
+      payload: unknown,
+    ) => Promise<unknown>,
+  ) => void;
+};
+
+// Responses of the requests rejected by the parser, sent by the onSend hook
+const formattedResponses = new WeakMap<object, StrictJsonErrorResponse>();
+
+const toHttpError = (e: unknown): Error => {
+  if (e instanceof StrictJsonError) {
+    const d = e.details;
+    const payload = {
+      code: d.code,
+      message: d.message,
+      ...(d.path || d.key || typeof d.position === "number"
+        ? {
+            details: {
+              ...(d.path ? { path: d.path } : {}),
+              ...(d.pointer !== undefined ? { pointer: d.pointer } : {}),
+              ...(d.key ? { key: d.key } : {}),
+              ...(typeof d.position === "number"
+                ? { position: d.position, line: d.line, column: d.column }
+                : {}),
+              ...(d.syntaxError ? { syntaxError: d.syntaxError } : {}),
+              ...(d.excerpt ? { excerpt: d.excerpt } : {}),
+            },
+          }
+        : {}),
+      ...(d.violations ? { violations: d.violations } : {}),
+    };
+
+    if (d.code === "STRICT_JSON_BODY_TOO_LARGE") {
+      return new PayloadTooLargeException(payload);
+    }
+
+    // The payload was not rejected; the server could not parse it in time
+    if (e instanceof WorkerPoolError) {
+      return new ServiceUnavailableException(payload);
+    }
+
+    return new BadRequestException(payload);
+  }
+
+  return e instanceof Error ? e : new Error("Strict JSON error");
+};
+
+// Keeps the formatted response for the onSend hook and fails the request with
+// its status; the hook then replaces whatever body the error handler renders
+const toFormattedError = (
+  req: unknown,
+  e: unknown,
+  options?: StrictJsonOptions,
+): Error => {
+  if (!(e instanceof StrictJsonError)) return toHttpError(e);
+
+  // Fastify passes its own request; the Node request is `raw`
+  const request = req as { raw?: IncomingMessage } | undefined;
+  let response: StrictJsonErrorResponse | undefined;
+  try {
+    response = formatErrorResponse(e, request?.raw ?? (req as IncomingMessage), options);
+  } catch (formatterError) {
+    // A failing errorResponseFormatter is left to the application's error handler
+    return formatterError instanceof Error ? formatterError : new Error(String(formatterError));
+  }
+  if (!response) return toHttpError(e);
+
+  if (request && typeof request === "object") {
+    formattedResponses.set(request, response);
+  }
+  return new HttpException(response.body as Record<string, unknown>, response.status);
 };
 
 export const registerStrictJsonFastify = (
   instance: FastifyLikeInstance,
-  options?: StrictJsonOptions,
+  rawOptions?: StrictJsonOptions,
 ): void => {
+  // Invalid options and a misconfigured key policy are reported once, on registration
+  const options = resolveStrictJsonOptions(rawOptions);
+  checkKeyPolicy(options);
+  const formatted =
+    options.errorResponseFormatter !== undefined || options.errorFormat === "problem+json";
+  const toError = (req: unknown, e: unknown): Error => {
+    // Fastify passes its own request; the Node request is `raw`
+    const raw = (req as { raw?: IncomingMessage } | undefined)?.raw;
+    const error =
+      e instanceof StrictJsonError
+        ? toResponseError(e, raw ?? (req as IncomingMessage), options).error
+        : e;
+    return formatted ? toFormattedError(req, error, options) : toHttpError(error);
+  };
+
+  if (formatted) {
+    // Whoever answers the error (Fastify or Nest's exception filter), the
+    // formatted response replaces its body
+    instance.addHook?.("onSend", async (request, reply, payload) => {
+      const response = formattedResponses.get(request as object);
+      if (!response) return payload;
+      formattedResponses.delete(request as object);
+      for (const [name, value] of Object.entries(response.headers)) {
+        reply.header(name, value);
+      }
+      return JSON.stringify(response.body);
+    });
+  }
+
   instance.addContentTypeParser(
     "application/json",
     { parseAs: "buffer" },
-    (_req, body, done) => {
+    (req, body, done) => {
+      // Fastify passes its own request; the Node request is `raw`
+      const raw = (req as { raw?: IncomingMessage } | undefined)?.raw;
+      const disconnect = raw ? abortOnDisconnect(raw, options) : undefined;
+      const parseOptions = disconnect?.options ?? options;
+
+      // Worker offload is asynchronous, so it only runs when enabled
+      if (options.enableWorkerPool) {
+        parseStrictJsonAsync(body, parseOptions)
+          .then(
+            (parsed) => done(null, parsed),
+            (e: unknown) => done(toError(req, e)),
+          )
+          .finally(() => disconnect?.dispose());
+        return;
+      }
+
       try {
-        const parsed = parseStrictJson(body, options);
+        const parsed = parseStrictJson(body, parseOptions);
         done(null, parsed);
       } catch (e) {
-        if (e instanceof StrictJsonError) {
-          const d = e.details;
-          const payload = {
-            code: d.code,
-            message: d.message,
-            ...(d.path || d.key || typeof d.position === "number"
-              ? {
-                  details: {
-                    ...(d.path ? { path: d.path } : {}),
-                    ...(d.key ? { key: d.key } : {}),
-                    ...(typeof d.position === "number"
-                      ? { position: d.position }
-                      : {}),
-                  },
-                }
-              : {}),
-          };
-
-          if (d.code === "STRICT_JSON_BODY_TOO_LARGE") {
-            done(new PayloadTooLargeException(payload));
-            return;
-          }
-
-          done(new BadRequestException(payload));
-          return;
-        }
-
-        done(e instanceof Error ? e : new Error("Strict JSON error"));
+        done(toError(req, e));
+      } finally {
+        disconnect?.dispose();
       }
     },
   );
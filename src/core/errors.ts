@@ -1,4 +1,12 @@
-import type { StrictJsonErrorDetails } from "./types.js";
+import type { StrictJsonConfigurationIssue, StrictJsonErrorDetails } from "./types.js";
+import { defaultErrorMessage } from "./messages.js";
+
+// Messages come from the English catalog in messages.ts
+const withMessage = (details: Omit<StrictJsonErrorDetails, "message">): StrictJsonErrorDetails => {
+  const full: StrictJsonErrorDetails = { ...details, message: "" };
+  full.message = defaultErrorMessage(full);
+  return full;
+};
 
 export class StrictJsonError extends Error {
   public readonly details: StrictJsonErrorDetails;
@@ -11,13 +19,12 @@ export class StrictJsonError extends Error {
 
 export class DuplicateKeyError extends StrictJsonError {
   public constructor(path: string, key: string, position?: number) {
-    super({
+    super(withMessage({
       code: "STRICT_JSON_DUPLICATE_KEY",
-      message: `Duplicate JSON key "${key}" at ${path}`,
       path,
       key,
       position,
-    });
+    }));
   }
 }
 
@@ -32,10 +39,10 @@ export class InvalidJsonError extends StrictJsonError {
 
 export class BodyTooLargeError extends StrictJsonError {
   public constructor(maxBodySizeBytes: number) {
-    super({
+    super(withMessage({
       code: "STRICT_JSON_BODY_TOO_LARGE",
-      message: `Request body exceeds max size of ${maxBodySizeBytes} bytes`,
-    });
+      limit: maxBodySizeBytes,
+    }));
   }
 }
 
@@ -45,12 +52,11 @@ export class PrototypePollutionError extends StrictJsonError {
     public readonly dangerousKey: string,
     public readonly path: string
   ) {
-    super({
+    super(withMessage({
       code: 'STRICT_JSON_PROTOTYPE_POLLUTION',
-      message: `Prototype pollution attempt detected: dangerous key '${dangerousKey}' at ${path}`,
       path,
       dangerousKey
-    });
+    }));
   }
 }
 
@@ -60,11 +66,153 @@ export class DepthLimitError extends StrictJsonError {
     public readonly currentDepth: number,
     public readonly maxDepth: number
   ) {
-    super({
+    super(withMessage({
       code: 'STRICT_JSON_DEPTH_LIMIT',
-      message: `JSON depth limit exceeded: ${currentDepth} > ${maxDepth}`,
       currentDepth,
       maxDepth
+    }));
+  }
+}
+
+export class UnsafeNumberError extends StrictJsonError {
+  readonly code = 'STRICT_JSON_UNSAFE_NUMBER' as const;
+  constructor(
+    public readonly path: string,
+    public readonly numberLiteral: string
+  ) {
+    super(withMessage({
+      code: 'STRICT_JSON_UNSAFE_NUMBER',
+      path,
+      numberLiteral
+    }));
+  }
+}
+
+export class KeysPerObjectLimitError extends StrictJsonError {
+  readonly code = 'STRICT_JSON_KEYS_PER_OBJECT_LIMIT' as const;
+  constructor(
+    public readonly path: string,
+    public readonly limit: number
+  ) {
+    super(withMessage({
+      code: 'STRICT_JSON_KEYS_PER_OBJECT_LIMIT',
+      path,
+      limit
+    }));
+  }
+}
+
+export class ArrayLengthLimitError extends StrictJsonError {
+  readonly code = 'STRICT_JSON_ARRAY_LENGTH_LIMIT' as const;
+  constructor(
+    public readonly path: string,
+    public readonly limit: number
+  ) {
+    super(withMessage({
+      code: 'STRICT_JSON_ARRAY_LENGTH_LIMIT',
+      path,
+      limit
+    }));
+  }
+}
+
+export class StringLengthLimitError extends StrictJsonError {
+  readonly code = 'STRICT_JSON_STRING_LENGTH_LIMIT' as const;
+  constructor(
+    public readonly path: string,
+    public readonly limit: number
+  ) {
+    super(withMessage({
+      code: 'STRICT_JSON_STRING_LENGTH_LIMIT',
+      path,
+      limit
+    }));
+  }
+}
+
+export class KeyLengthLimitError extends StrictJsonError {
+  readonly code = 'STRICT_JSON_KEY_LENGTH_LIMIT' as const;
+  constructor(
+    public readonly path: string,
+    public readonly limit: number
+  ) {
+    super(withMessage({
+      code: 'STRICT_JSON_KEY_LENGTH_LIMIT',
+      path,
+      limit
+    }));
+  }
+}
+
+export class TotalNodesLimitError extends StrictJsonError {
+  readonly code = 'STRICT_JSON_TOTAL_NODES_LIMIT' as const;
+  constructor(
+    public readonly path: string,
+    public readonly limit: number
+  ) {
+    super(withMessage({
+      code: 'STRICT_JSON_TOTAL_NODES_LIMIT',
+      path,
+      limit
+    }));
+  }
+}
+
+export class KeyNotAllowedError extends StrictJsonError {
+  readonly code = 'STRICT_JSON_KEY_NOT_ALLOWED' as const;
+  constructor(
+    public readonly path: string,
+    public readonly key: string,
+    public readonly policy: 'whitelist' | 'blacklist',
+    // Blacklist pattern the key matched (undefined when missing from the whitelist)
+    public readonly rule?: string
+  ) {
+    super(withMessage({
+      code: 'STRICT_JSON_KEY_NOT_ALLOWED',
+      path,
+      key,
+      policy,
+      rule
+    }));
+  }
+}
+
+export class ParseTimeoutError extends StrictJsonError {
+  readonly code = 'STRICT_JSON_TIMEOUT' as const;
+  constructor(
+    // Undefined when parsing was cancelled through the AbortSignal
+    public readonly timeBudgetMs?: number
+  ) {
+    super(withMessage({
+      code: 'STRICT_JSON_TIMEOUT',
+      limit: timeBudgetMs
+    }));
+  }
+}
+
+export class WorkerPoolError extends StrictJsonError {
+  constructor(
+    public readonly code:
+      | 'STRICT_JSON_WORKER_QUEUE_FULL'
+      | 'STRICT_JSON_WORKER_TIMEOUT'
+      | 'STRICT_JSON_WORKER_FAILED',
+    message: string
+  ) {
+    super({
+      code,
+      message
     });
   }
 }
+
+// Invalid options: thrown when they are registered or first used, never
+// reported to a client
+export class StrictJsonConfigurationError extends Error {
+  constructor(
+    message: string,
+    public readonly issues: StrictJsonConfigurationIssue[] = []
+  ) {
+    super(message);
+    this.name = 'StrictJsonConfigurationError';
+  }
+}
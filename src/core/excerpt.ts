@@ -0,0 +1,58 @@
+/**
+ * Source excerpts for error reporting
+ */
+
+import { escapeControlChars } from "./path.js";
+
+const CHAR_LF = 0x0a;
+const CHAR_CR = 0x0d;
+
+// Characters shown on each side of the offending token (default)
+const EXCERPT_RADIUS = 24;
+const ELLIPSIS = "...";
+
+const isLineBreak = (c: number | undefined): boolean => c === CHAR_LF || c === CHAR_CR;
+
+// UTF-8 continuation bytes do not start a character
+const isLeadByte = (c: number): boolean => (c & 0xc0) !== 0x80;
+
+/**
+ * Formats the source around an offset with a caret line under it
+ * @param buf - Source bytes (UTF-8)
+ * @param offset - Offset of the offending token in `buf`
+ * @param radius - Characters shown on each side of the token
+ * @returns Two lines: the escaped source line, truncated to a few characters
+ * on each side, and a caret pointing at the token
+ */
+export function createExcerpt(buf: Uint8Array, offset: number, radius = EXCERPT_RADIUS): string {
+  const at = Math.max(0, Math.min(offset, buf.length));
+
+  // Characters before the token, up to the start of its line
+  let start = at;
+  for (let chars = 0; start > 0 && !isLineBreak(buf[start - 1]); ) {
+    if (isLeadByte(buf[start - 1]) && chars++ === radius) break;
+    start--;
+  }
+
+  // The token itself, then characters up to the end of its line; a raw line
+  // break (inside a string) is shown escaped and ends the excerpt
+  let end = at;
+  if (isLineBreak(buf[end])) {
+    end++;
+  } else if (end < buf.length) {
+    end++;
+    while (end < buf.length && !isLeadByte(buf[end])) end++;
+    for (let chars = 0; end < buf.length && !isLineBreak(buf[end]); end++) {
+      if (isLeadByte(buf[end]) && chars++ === radius) break;
+    }
+  }
+
+  const head = start > 0 && !isLineBreak(buf[start - 1]) ? ELLIPSIS : "";
+  const tail =
+    end < buf.length && !isLineBreak(buf[end]) && !isLineBreak(buf[end - 1]) ? ELLIPSIS : "";
+  const before = head + escapeControlChars(Buffer.from(buf.subarray(start, at)).toString("utf8"));
+  const after = escapeControlChars(Buffer.from(buf.subarray(at, end)).toString("utf8")) + tail;
+
+  // The caret counts characters, so astral symbols take one column
+  return `${before}${after}\n${" ".repeat([...before].length)}^`;
+}
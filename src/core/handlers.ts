@@ -0,0 +1,85 @@
+import {
+  ArrayLengthLimitError,
+  BodyTooLargeError,
+  DepthLimitError,
+  DuplicateKeyError,
+  InvalidJsonError,
+  KeyLengthLimitError,
+  KeyNotAllowedError,
+  KeysPerObjectLimitError,
+  ParseTimeoutError,
+  PrototypePollutionError,
+  StringLengthLimitError,
+  TotalNodesLimitError,
+  type StrictJsonError,
+} from "./errors.js";
+import type { StrictJsonErrorHandler, StrictJsonOptions } from "./types.js";
+
+// Custom error handler wrapper - sync version
+export const invokeErrorHandlerSync = (
+  handler: StrictJsonErrorHandler | undefined,
+  error: unknown
+): void => {
+  if (handler) {
+    try {
+      handler(error);
+    } catch (handlerError) {
+      // Handler errors should not prevent original error from being thrown
+      // Do nothing, just ignore handler errors
+    }
+  }
+};
+
+// Custom error handler wrapper - async version
+export const invokeErrorHandlerAsync = async (
+  handler: StrictJsonErrorHandler | undefined,
+  error: unknown
+): Promise<void> => {
+  if (handler) {
+    try {
+      await handler(error);
+    } catch (handlerError) {
+      // Handler errors should not prevent original error from being thrown
+      // Do nothing, just ignore handler errors
+    }
+  }
+};
+
+// Dedicated handler for an error thrown while parsing (onError is invoked as well)
+export const getErrorTypeHandler = (
+  error: StrictJsonError,
+  options?: StrictJsonOptions
+): StrictJsonErrorHandler | undefined => {
+  if (error instanceof DuplicateKeyError) return options?.onDuplicateKey;
+  if (error instanceof PrototypePollutionError) return options?.onPrototypePollution;
+  if (error instanceof KeyNotAllowedError) return options?.onKeyNotAllowed;
+  if (error instanceof DepthLimitError) return options?.onDepthLimit;
+  if (error instanceof KeysPerObjectLimitError) return options?.onKeysPerObjectLimit;
+  if (error instanceof ArrayLengthLimitError) return options?.onArrayLengthLimit;
+  if (error instanceof StringLengthLimitError) return options?.onStringLengthLimit;
+  if (error instanceof KeyLengthLimitError) return options?.onKeyLengthLimit;
+  if (error instanceof TotalNodesLimitError) return options?.onTotalNodesLimit;
+  if (error instanceof ParseTimeoutError) return options?.onTimeout;
+  if (error instanceof BodyTooLargeError) return options?.onBodyTooLarge;
+  if (error instanceof InvalidJsonError) return options?.onInvalidJson;
+  return undefined;
+};
+
+/**
+ * Invokes the dedicated handler of a parse error, then onError.
+ */
+export const reportErrorSync = (error: StrictJsonError, options?: StrictJsonOptions): void => {
+  invokeErrorHandlerSync(getErrorTypeHandler(error, options), error);
+  invokeErrorHandlerSync(options?.onError, error);
+};
+
+/**
+ * Invokes the dedicated handler of a parse error, then onError, awaiting both.
+ */
+export const reportErrorAsync = async (
+  error: StrictJsonError,
+  options?: StrictJsonOptions
+): Promise<void> => {
+  await invokeErrorHandlerAsync(getErrorTypeHandler(error, options), error);
+  await invokeErrorHandlerAsync(options?.onError, error);
+};
@@ -0,0 +1,553 @@
+/**
+ * Key policy pattern language for whitelist/blacklist rules
+ *
+ * A pattern is a path relative to the root, with an optional "$" prefix:
+ *
+ *   rule     = [ "!" ] [ "$." | "$" ] segment *( "." name / bracket )
+ *   segment  = name / bracket
+ *   name     = "*"              one segment: any key or array item
+ *            / "**"             any number of segments, including none
+ *            / "re:/" source "/" [ flags ]   a key matching the regular expression
+ *            / 1*( char / "\" any )         a key; "\" escapes the next character
+ *   bracket  = "[*]"            any array item
+ *            / "[" digits "]"   the array item at that index
+ *            / "[" json-string "]"          a key, quoted (e.g. ["a.b"])
+ *
+ * Every pattern matches the whole key path. When several rules match a key,
+ * the most specific one decides: the one with more named segments (exact or
+ * regular expression), then more single wildcards, then fewer "**". A deny
+ * wins a tie. A whitelist rule allows the keys it matches and their
+ * parents; prefixed with "!" it denies them. A key is only a parent through
+ * a "**" when its value is an object or an array ("**.id" allows "id" keys
+ * and the containers leading to them). A blacklist rule denies the keys
+ * it matches; prefixed with "!" it allows them as an exception. With a
+ * whitelist, keys no rule matches are denied; without one they are allowed.
+ */
+
+import { StrictJsonConfigurationError } from "./errors.js";
+import type { KeyPolicyDecision } from "./pattern-matcher.js";
+import type { KeyPolicyRuleMatch } from "./types.js";
+
+// One step of a pattern, matching one path segment (or several for "**")
+type PatternStep =
+  | { kind: "key"; name: string }
+  | { kind: "index"; index: number }
+  | { kind: "item" }
+  | { kind: "segment" }
+  | { kind: "regex"; regex: RegExp }
+  | { kind: "path" };
+
+/**
+ * Parsed key policy pattern
+ */
+export interface KeyPattern {
+  /** Pattern as written */
+  source: string;
+  /** True for "!" rules */
+  negated: boolean;
+  steps: ReadonlyArray<PatternStep>;
+  /** Counts of exact, regular expression, single wildcard and "**" segments */
+  specificity: readonly [number, number, number, number];
+}
+
+/**
+ * Path segment of a key path: an object key or an array index
+ */
+export type KeyPathSegment = string | number;
+
+// Characters of a plain name that need a backslash
+const NAME_DELIMITERS = new Set([".", "["]);
+const REGEX_FLAGS = /^[imsu]*$/;
+
+const fail = (pattern: string, reason: string): never => {
+  throw new StrictJsonConfigurationError(`Invalid key pattern "${pattern}": ${reason}`, [
+    { code: "MALFORMED_PATTERN", message: reason },
+  ]);
+};
+
+// Index of the quote closing a JSON string that starts at `start`
+const findClosingQuote = (text: string, start: number): number => {
+  for (let i = start + 1; i < text.length; i++) {
+    if (text[i] === "\\") i++;
+    else if (text[i] === '"') return i;
+  }
+  return -1;
+};
+
+// Reads the bracket segment at `start`; returns the step and the next index
+const readBracket = (pattern: string, body: string, start: number): [PatternStep, number] => {
+  if (body.startsWith("[*]", start)) return [{ kind: "item" }, start + 3];
+
+  if (body[start + 1] === '"') {
+    const close = findClosingQuote(body, start + 1);
+    if (close === -1 || body[close + 1] !== "]") fail(pattern, "unterminated quoted key");
+    let name: string;
+    try {
+      name = JSON.parse(body.slice(start + 1, close + 1)) as string;
+    } catch {
+      return fail(pattern, "invalid quoted key");
+    }
+    return [{ kind: "key", name }, close + 2];
+  }
+
+  const close = body.indexOf("]", start);
+  const digits = close === -1 ? "" : body.slice(start + 1, close);
+  if (!/^\d+$/.test(digits)) {
+    fail(pattern, 'brackets hold "*", an array index or a quoted key');
+  }
+  return [{ kind: "index", index: Number(digits) }, close + 1];
+};
+
+// Reads the regular expression of a "re:/source/flags" segment at `start`
+const readRegex = (pattern: string, body: string, start: number): [PatternStep, number] => {
+  let end = start + 4;
+  while (end < body.length && body[end] !== "/") {
+    end += body[end] === "\\" ? 2 : 1;
+  }
+  if (end >= body.length) fail(pattern, "unterminated regular expression");
+  const source = body.slice(start + 4, end);
+  let next = end + 1;
+  while (next < body.length && !NAME_DELIMITERS.has(body[next])) next++;
+  const flags = body.slice(end + 1, next);
+  if (!REGEX_FLAGS.test(flags)) {
+    fail(pattern, `unsupported regular expression flags "${flags}"`);
+  }
+  try {
+    return [{ kind: "regex", regex: new RegExp(source, flags) }, next];
+  } catch (error) {
+    return fail(pattern, (error as Error).message);
+  }
+};
+
+// Reads the name segment at `start`; returns the step and the next index
+const readName = (pattern: string, body: string, start: number): [PatternStep, number] => {
+  if (body.startsWith("re:/", start)) return readRegex(pattern, body, start);
+
+  let name = "";
+  let raw = "";
+  let i = start;
+  while (i < body.length && !NAME_DELIMITERS.has(body[i])) {
+    if (body[i] === "\\") {
+      if (i + 1 >= body.length) fail(pattern, "trailing backslash");
+      name += body[i + 1];
+      raw += "\\";
+      i += 2;
+      continue;
+    }
+    name += body[i];
+    raw += body[i];
+    i++;
+  }
+
+  if (raw === "*") return [{ kind: "segment" }, i];
+  if (raw === "**") return [{ kind: "path" }, i];
+  if (raw.length === 0) fail(pattern, "empty segment");
+  if (raw.includes("*")) {
+    fail(pattern, 'a wildcard spans a whole segment; escape "*" or use "re:/.../"');
+  }
+  return [{ kind: "key", name }, i];
+};
+
+/**
+ * Parses a whitelist/blacklist pattern
+ * @param pattern - Pattern (e.g., "user.*", "!**.password", 'data["a.b"]')
+ * @returns Parsed pattern
+ * @throws Error describing the first syntax error
+ */
+export function parseKeyPattern(pattern: string): KeyPattern {
+  const negated = pattern.startsWith("!");
+  let body = negated ? pattern.slice(1) : pattern;
+  if (body.startsWith("$.")) body = body.slice(2);
+  else if (body.startsWith("$[")) body = body.slice(1);
+  if (body.length === 0) fail(pattern, "empty pattern");
+
+  const steps: PatternStep[] = [];
+  let i = 0;
+  while (i < body.length) {
+    let step: PatternStep;
+    if (body[i] === "[") {
+      [step, i] = readBracket(pattern, body, i);
+    } else {
+      if (steps.length > 0) {
+        if (body[i] !== ".") fail(pattern, `unexpected "${body[i]}"`);
+        i++;
+      }
+      [step, i] = readName(pattern, body, i);
+    }
+    steps.push(step);
+  }
+
+  const count = (kinds: PatternStep["kind"][]) =>
+    steps.filter((step) => kinds.includes(step.kind)).length;
+  return {
+    source: pattern,
+    negated,
+    steps,
+    specificity: [
+      count(["key", "index"]),
+      count(["regex"]),
+      count(["segment", "item"]),
+      count(["path"]),
+    ],
+  };
+}
+
+/**
+ * Splits a key path into its keys and array indices
+ * @param path - Key path (e.g., '$.data[0]["a.b"]'); "$." may be omitted
+ * @returns Segments from the root (e.g., ["data", 0, "a.b"])
+ */
+export function parseKeyPath(path: string): KeyPathSegment[] {
+  let text = path;
+  if (text.startsWith("$")) text = text.slice(1);
+  else if (!text.startsWith("[")) text = "." + text;
+
+  const segments: KeyPathSegment[] = [];
+  let i = 0;
+  while (i < text.length) {
+    if (text[i] === "[") {
+      if (text[i + 1] === '"') {
+        const close = findClosingQuote(text, i + 1);
+        segments.push(JSON.parse(text.slice(i + 1, close + 1)) as string);
+        i = close + 2;
+      } else {
+        const close = text.indexOf("]", i);
+        segments.push(Number(text.slice(i + 1, close)));
+        i = close + 1;
+      }
+      continue;
+    }
+    // Plain keys never contain "." or "[" (see formatKeySegment)
+    let end = i + 1;
+    while (end < text.length && text[end] !== "." && text[end] !== "[") end++;
+    segments.push(text.slice(i + 1, end));
+    i = end;
+  }
+  return segments;
+}
+
+/**
+ * Compares the specificity of two patterns
+ * @returns A positive number when `a` is more specific, 0 when they tie
+ */
+export function compareSpecificity(a: KeyPattern, b: KeyPattern): number {
+  const [exactA, regexA, singleA, pathA] = a.specificity;
+  const [exactB, regexB, singleB, pathB] = b.specificity;
+  return exactA + regexA - (exactB + regexB) || singleA - singleB || pathB - pathA;
+}
+
+// Whether a single-segment step `a` matches every segment step `b` matches
+const stepCovers = (a: PatternStep, b: PatternStep): boolean => {
+  switch (a.kind) {
+    case "segment":
+      return b.kind !== "path";
+    case "item":
+      return b.kind === "item" || b.kind === "index";
+    case "index":
+      return b.kind === "index" && b.index === a.index;
+    case "key":
+      return b.kind === "key" && b.name === a.name;
+    case "regex":
+      return (
+        (b.kind === "key" && a.regex.test(b.name)) ||
+        (b.kind === "regex" && b.regex.source === a.regex.source && b.regex.flags === a.regex.flags)
+      );
+    default:
+      return true;
+  }
+};
+
+/**
+ * Checks whether pattern `a` matches every key path pattern `b` matches
+ * (regular expression segments only cover identical ones and the keys they match)
+ */
+export function patternCovers(a: KeyPattern, b: KeyPattern): boolean {
+  const stepsA = a.steps;
+  const stepsB = b.steps;
+  // covers[i][j]: stepsA from i covers stepsB from j
+  const covers: boolean[][] = Array.from({ length: stepsA.length + 1 }, () =>
+    new Array<boolean>(stepsB.length + 1).fill(false),
+  );
+  covers[stepsA.length][stepsB.length] = true;
+
+  for (let i = stepsA.length - 1; i >= 0; i--) {
+    for (let j = stepsB.length; j >= 0; j--) {
+      covers[i][j] =
+        stepsA[i].kind === "path"
+          ? // "**" matches nothing, or absorbs the next step of `b` (even "**")
+            covers[i + 1][j] || (j < stepsB.length && covers[i][j + 1])
+          : j < stepsB.length &&
+            stepsB[j].kind !== "path" &&
+            stepCovers(stepsA[i], stepsB[j]) &&
+            covers[i + 1][j + 1];
+    }
+  }
+  return covers[0][0];
+}
+
+/**
+ * Number of segments of the shortest key path a pattern matches
+ */
+export function minimumSegments(pattern: KeyPattern): number {
+  return pattern.steps.filter((step) => step.kind !== "path").length;
+}
+
+/**
+ * Rule of a key policy: a parsed pattern and what it does to the keys it matches
+ */
+export interface KeyPolicyRule {
+  policy: "whitelist" | "blacklist";
+  pattern: KeyPattern;
+  allows: boolean;
+}
+
+/**
+ * Parses whitelist/blacklist patterns into rules
+ * @throws Error on the first malformed pattern
+ */
+export function parseKeyPolicyRules(whitelist?: string[], blacklist?: string[]): KeyPolicyRule[] {
+  const rules: KeyPolicyRule[] = [];
+  for (const source of whitelist ?? []) {
+    const pattern = parseKeyPattern(source);
+    rules.push({ policy: "whitelist", pattern, allows: !pattern.negated });
+  }
+  for (const source of blacklist ?? []) {
+    const pattern = parseKeyPattern(source);
+    rules.push({ policy: "blacklist", pattern, allows: pattern.negated });
+  }
+  return rules;
+}
+
+
+/**
+ * Key policy compiled into an automaton over path segments. A state stands
+ * for the steps every rule may have reached after the segments read so far,
+ * so a key is decided from the state of its parent with one transition.
+ * States, transitions and decisions are built on first use and kept.
+ */
+export interface KeyPolicyAutomaton {
+  /** State of the root, before any segment */
+  readonly root: number;
+  /** State after one more segment */
+  next(state: number, segment: KeyPathSegment): number;
+  /** State reached by a key path (e.g., '$.data[0]["a.b"]', see parseKeyPath) */
+  find(path: string): number;
+  /**
+   * Decides the key path leading to a state with the documented precedence
+   * @param matches - Receives every rule matching the key, when given
+   */
+  decide(state: number, matches?: KeyPolicyRuleMatch[]): KeyPolicyDecision;
+}
+
+// Transitions out of a state, by kind of segment; a position encodes a
+// rule, a step of its pattern and whether a "**" absorbed a segment on the
+// way to it (see compilePatternKeyPolicy)
+interface StateMoves {
+  keys: Map<string, number[]>;
+  indices: Map<number, number[]>;
+  // Reached by any array index ("[*]")
+  items: number[];
+  // Reached by any segment ("*", and "**" staying in place)
+  any: number[];
+  regexes: Array<{ regex: RegExp; position: number }>;
+  // Next states by class of segment (see next)
+  targets: Map<string, number>;
+}
+
+interface AutomatonState {
+  // Positions reached, sorted
+  positions: number[];
+  moves?: StateMoves;
+  decision?: KeyPolicyDecision;
+  matched?: KeyPolicyRule[];
+}
+
+const push = <K>(map: Map<K, number[]>, key: K, position: number): void => {
+  const positions = map.get(key);
+  if (positions) positions.push(position);
+  else map.set(key, [position]);
+};
+
+/**
+ * Compiles whitelist/blacklist patterns of the pattern language into a key
+ * policy automaton. Matching a segment costs one lookup per state, plus one
+ * test per regular expression segment the state may be at.
+ * @throws Error on the first malformed pattern
+ */
+export function compilePatternKeyPolicy(
+  whitelist?: string[],
+  blacklist?: string[],
+): KeyPolicyAutomaton {
+  const rules = parseKeyPolicyRules(whitelist, blacklist);
+  const hasWhitelist = whitelist !== undefined;
+  const stride = Math.max(0, ...rules.map((rule) => rule.pattern.steps.length)) + 1;
+  // Positions from `absorbed` on were reached through a segment a "**"
+  // absorbed; they only make the keys leading to them parents of
+  // whitelisted keys when their values are containers
+  const absorbed = rules.length * stride;
+  const stepAt = (position: number): PatternStep | undefined => {
+    const index = position % absorbed;
+    return rules[Math.floor(index / stride)].pattern.steps[index % stride];
+  };
+
+  const states: AutomatonState[] = [];
+  const stateIds = new Map<string, number>();
+
+  // State of a set of positions; "**" may match nothing, so reaching it
+  // also reaches the step after it
+  const intern = (reached: number[]): number => {
+    const closed = new Set(reached);
+    for (const position of closed) {
+      if (stepAt(position)?.kind === "path") closed.add(position + 1);
+    }
+    // A step reached directly needs no absorbed copy
+    const positions = [...closed]
+      .filter((position) => position < absorbed || !closed.has(position - absorbed))
+      .sort((a, b) => a - b);
+    const id = positions.join(",");
+    let state = stateIds.get(id);
+    if (state === undefined) {
+      state = states.push({ positions }) - 1;
+      stateIds.set(id, state);
+    }
+    return state;
+  };
+
+  const buildMoves = (positions: number[]): StateMoves => {
+    const moves: StateMoves = {
+      keys: new Map(),
+      indices: new Map(),
+      items: [],
+      any: [],
+      regexes: [],
+      targets: new Map(),
+    };
+    for (const position of positions) {
+      const step = stepAt(position);
+      switch (step?.kind) {
+        case "key":
+          push(moves.keys, step.name, position + 1);
+          break;
+        case "index":
+          push(moves.indices, step.index, position + 1);
+          break;
+        case "item":
+          moves.items.push(position + 1);
+          break;
+        case "segment":
+          moves.any.push(position + 1);
+          break;
+        case "path":
+          moves.any.push(position < absorbed ? position + absorbed : position);
+          break;
+        case "regex":
+          moves.regexes.push({ regex: step.regex, position: position + 1 });
+          break;
+      }
+    }
+    return moves;
+  };
+
+  const next = (state: number, segment: KeyPathSegment): number => {
+    const from = states[state];
+    const moves = (from.moves ??= buildMoves(from.positions));
+    const isIndex = typeof segment === "number";
+    // Segments reaching the same positions share a class: which regular
+    // expressions match (fixed length), then the exact key or index, if any
+    let matching = "";
+    for (const { regex } of moves.regexes) {
+      matching += !isIndex && regex.test(segment) ? "1" : "0";
+    }
+    const exact = isIndex ? moves.indices.get(segment) : moves.keys.get(segment);
+    const segmentClass = `${matching}${isIndex ? "#" : "."}${exact ? `=${segment}` : "*"}`;
+
+    let target = moves.targets.get(segmentClass);
+    if (target === undefined) {
+      const reached = [...moves.any, ...(exact ?? [])];
+      if (isIndex) reached.push(...moves.items);
+      moves.regexes.forEach(({ position }, i) => {
+        if (matching[i] === "1") reached.push(position);
+      });
+      target = intern(reached);
+      moves.targets.set(segmentClass, target);
+    }
+    return target;
+  };
+
+  const decideState = (state: AutomatonState): KeyPolicyDecision => {
+    const reached = new Set(state.positions);
+    const matched: KeyPolicyRule[] = [];
+    let decisive: KeyPolicyRule | undefined;
+    // Set when an allow and a deny are equally specific
+    let tie = false;
+    // Whitelist rule matching a key below this one, allowing it as a parent
+    let parentOf: KeyPolicyRule | undefined;
+    // The same, through a segment a "**" absorbed
+    let containerOf: KeyPolicyRule | undefined;
+
+    rules.forEach((rule, index) => {
+      const start = index * stride;
+      const end = start + rule.pattern.steps.length;
+      if (reached.has(end) || reached.has(end + absorbed)) {
+        matched.push(rule);
+        const order = decisive ? compareSpecificity(rule.pattern, decisive.pattern) : 1;
+        if (order > 0) {
+          decisive = rule;
+          tie = false;
+        } else if (order === 0 && decisive && rule.allows !== decisive.allows) {
+          tie = true;
+          if (!rule.allows) decisive = rule;
+        }
+      } else if (rule.policy === "whitelist" && rule.allows) {
+        // A step left means a longer path may match ("**" stays reachable)
+        const within = (offset: number) =>
+          state.positions.some((position) => position >= start + offset && position < end + offset);
+        if (within(0)) parentOf ??= rule;
+        else if (within(absorbed)) containerOf ??= rule;
+      }
+    });
+    state.matched = matched;
+
+    if (decisive) {
+      return {
+        allowed: decisive.allows,
+        reason: tie ? "deny-wins-tie" : "most-specific-rule",
+        policy: decisive.policy,
+        rule: decisive.pattern.source,
+      };
+    }
+    if (parentOf) {
+      return {
+        allowed: true,
+        reason: "parent-of-whitelisted",
+        policy: "whitelist",
+        rule: parentOf.pattern.source,
+      };
+    }
+    if (containerOf) {
+      return {
+        allowed: true,
+        reason: "container-of-whitelisted",
+        policy: "whitelist",
+        rule: containerOf.pattern.source,
+      };
+    }
+    if (hasWhitelist) return { allowed: false, reason: "not-whitelisted", policy: "whitelist" };
+    return { allowed: true, reason: rules.length > 0 ? "not-blacklisted" : "no-policy" };
+  };
+
+  const root = intern(rules.map((_, index) => index * stride));
+  return {
+    root,
+    next,
+    find: (path) => parseKeyPath(path).reduce<number>(next, root),
+    decide: (state, matches) => {
+      const target = states[state];
+      const decision = (target.decision ??= decideState(target));
+      for (const { policy, pattern, allows } of target.matched ?? []) {
+        matches?.push({ policy, rule: pattern.source, allows });
+      }
+      return decision;
+    },
+  };
+}
@@ -0,0 +1,428 @@
+import type {
+  StrictJsonErrorCode,
+  StrictJsonErrorDetails,
+  StrictJsonMessageCatalog,
+  StrictJsonSyntaxErrorKind,
+} from "./types.js";
+import type { StrictJsonError } from "./errors.js";
+import { escapeControlChars } from "./path.js";
+
+const DEFAULT_LOCALE = "en";
+
+// Summaries that do not echo the input (problem+json titles, redacted responses)
+const TITLES: Record<StrictJsonErrorCode, string> = {
+  STRICT_JSON_DUPLICATE_KEY: "Duplicate JSON key",
+  STRICT_JSON_INVALID_JSON: "Invalid JSON",
+  STRICT_JSON_BODY_TOO_LARGE: "Request body too large",
+  STRICT_JSON_PROTOTYPE_POLLUTION: "Prototype pollution attempt",
+  STRICT_JSON_DEPTH_LIMIT: "JSON depth limit exceeded",
+  STRICT_JSON_UNSAFE_NUMBER: "Unsafe JSON number",
+  STRICT_JSON_KEYS_PER_OBJECT_LIMIT: "Too many keys in a JSON object",
+  STRICT_JSON_ARRAY_LENGTH_LIMIT: "JSON array too long",
+  STRICT_JSON_STRING_LENGTH_LIMIT: "JSON string too long",
+  STRICT_JSON_KEY_LENGTH_LIMIT: "JSON key too long",
+  STRICT_JSON_TOTAL_NODES_LIMIT: "Too many JSON values",
+  STRICT_JSON_KEY_NOT_ALLOWED: "JSON key not allowed",
+  STRICT_JSON_TIMEOUT: "JSON parsing timed out",
+  STRICT_JSON_WORKER_QUEUE_FULL: "JSON parser overloaded",
+  STRICT_JSON_WORKER_TIMEOUT: "JSON parser overloaded",
+  STRICT_JSON_WORKER_FAILED: "JSON parser unavailable",
+};
+
+// Input is echoed with control characters escaped, so messages stay on one line
+const sanitize = (d: StrictJsonErrorDetails): StrictJsonErrorDetails => ({
+  ...d,
+  key: d.key === undefined ? undefined : escapeControlChars(d.key),
+  dangerousKey: d.dangerousKey === undefined ? undefined : escapeControlChars(d.dangerousKey),
+});
+
+const syntaxErrorMessage = (
+  prefix: string,
+  descriptions: Record<StrictJsonSyntaxErrorKind, string>,
+  at: (line?: number, column?: number) => string,
+) => (d: StrictJsonErrorDetails): string =>
+  d.syntaxError ? `${prefix}: ${descriptions[d.syntaxError]} ${at(d.line, d.column)}` : prefix;
+
+const invalidJsonEn = syntaxErrorMessage(
+  "Invalid JSON",
+  {
+    UnexpectedEndOfInput: "unexpected end of input",
+    ValueExpected: "value expected",
+    PropertyNameExpected: "property name expected",
+    ColonExpected: "colon expected",
+    CommaExpected: "comma or closing bracket expected",
+    EndOfInputExpected: "unexpected content after the JSON value",
+    InvalidSymbol: "invalid symbol",
+    InvalidNumberFormat: "invalid number format",
+    InvalidCharacter: "unescaped control character in string",
+    InvalidEscapeCharacter: "invalid escape sequence",
+    InvalidUnicode: "invalid unicode escape sequence",
+    UnexpectedEndOfString: "unterminated string",
+  },
+  (line, column) => `at line ${line}, column ${column}`,
+);
+
+const en: Required<StrictJsonMessageCatalog> = {
+  STRICT_JSON_DUPLICATE_KEY: (d) => `Duplicate JSON key "${d.key}" at ${d.path}`,
+  STRICT_JSON_INVALID_JSON: (d) => (d.syntaxError ? invalidJsonEn(d) : d.message),
+  STRICT_JSON_BODY_TOO_LARGE: (d) => `Request body exceeds max size of ${d.limit} bytes`,
+  STRICT_JSON_PROTOTYPE_POLLUTION: (d) =>
+    `Prototype pollution attempt detected: dangerous key '${d.dangerousKey}' at ${d.path}`,
+  STRICT_JSON_DEPTH_LIMIT: (d) => `JSON depth limit exceeded: ${d.currentDepth} > ${d.maxDepth}`,
+  STRICT_JSON_UNSAFE_NUMBER: (d) =>
+    `Number ${d.numberLiteral} at ${d.path} cannot be represented without losing precision`,
+  STRICT_JSON_KEYS_PER_OBJECT_LIMIT: (d) => `Object at ${d.path} has more than ${d.limit} keys`,
+  STRICT_JSON_ARRAY_LENGTH_LIMIT: (d) => `Array at ${d.path} has more than ${d.limit} items`,
+  STRICT_JSON_STRING_LENGTH_LIMIT: (d) =>
+    `String at ${d.path} is longer than ${d.limit} characters`,
+  STRICT_JSON_KEY_LENGTH_LIMIT: (d) =>
+    `Object at ${d.path} has a key longer than ${d.limit} characters`,
+  STRICT_JSON_TOTAL_NODES_LIMIT: (d) =>
+    `JSON document has more than ${d.limit} values (exceeded at ${d.path})`,
+  STRICT_JSON_KEY_NOT_ALLOWED: (d) =>
+    d.rule === undefined
+      ? `Key '${d.key}' at ${d.path} is not allowed by the whitelist`
+      : `Key '${d.key}' at ${d.path} is not allowed by ${d.policy} rule '${d.rule}'`,
+  STRICT_JSON_TIMEOUT: (d) =>
+    d.limit === undefined
+      ? "JSON parsing was aborted"
+      : `JSON parsing exceeded the time budget of ${d.limit}ms`,
+  // Worker messages are written by the pool with its settings
+  STRICT_JSON_WORKER_QUEUE_FULL: (d) => d.message,
+  STRICT_JSON_WORKER_TIMEOUT: (d) => d.message,
+  STRICT_JSON_WORKER_FAILED: (d) => d.message,
+};
+
+const de: StrictJsonMessageCatalog = {
+  STRICT_JSON_DUPLICATE_KEY: (d) => `Doppelter JSON-Schlüssel "${d.key}" bei ${d.path}`,
+  STRICT_JSON_INVALID_JSON: syntaxErrorMessage(
+    "Ungültiges JSON",
+    {
+      UnexpectedEndOfInput: "unerwartetes Ende der Eingabe",
+      ValueExpected: "Wert erwartet",
+      PropertyNameExpected: "Eigenschaftsname erwartet",
+      ColonExpected: "Doppelpunkt erwartet",
+      CommaExpected: "Komma oder schließende Klammer erwartet",
+      EndOfInputExpected: "unerwarteter Inhalt nach dem JSON-Wert",
+      InvalidSymbol: "ungültiges Symbol",
+      InvalidNumberFormat: "ungültiges Zahlenformat",
+      InvalidCharacter: "nicht maskiertes Steuerzeichen in Zeichenkette",
+      InvalidEscapeCharacter: "ungültige Escape-Sequenz",
+      InvalidUnicode: "ungültige Unicode-Escape-Sequenz",
+      UnexpectedEndOfString: "nicht abgeschlossene Zeichenkette",
+    },
+    (line, column) => `in Zeile ${line}, Spalte ${column}`,
+  ),
+  STRICT_JSON_BODY_TOO_LARGE: (d) =>
+    `Der Anfragetext überschreitet die maximale Größe von ${d.limit} Bytes`,
+  STRICT_JSON_PROTOTYPE_POLLUTION: (d) =>
+    `Versuch einer Prototype Pollution erkannt: gefährlicher Schlüssel '${d.dangerousKey}' bei ${d.path}`,
+  STRICT_JSON_DEPTH_LIMIT: (d) =>
+    `JSON-Verschachtelungstiefe überschritten: ${d.currentDepth} > ${d.maxDepth}`,
+  STRICT_JSON_UNSAFE_NUMBER: (d) =>
+    `Die Zahl ${d.numberLiteral} bei ${d.path} kann nicht ohne Genauigkeitsverlust dargestellt werden`,
+  STRICT_JSON_KEYS_PER_OBJECT_LIMIT: (d) =>
+    `Das Objekt bei ${d.path} hat mehr als ${d.limit} Schlüssel`,
+  STRICT_JSON_ARRAY_LENGTH_LIMIT: (d) => `Das Array bei ${d.path} hat mehr als ${d.limit} Elemente`,
+  STRICT_JSON_STRING_LENGTH_LIMIT: (d) =>
+    `Die Zeichenkette bei ${d.path} ist länger als ${d.limit} Zeichen`,
+  STRICT_JSON_KEY_LENGTH_LIMIT: (d) =>
+    `Das Objekt bei ${d.path} hat einen Schlüssel mit mehr als ${d.limit} Zeichen`,
+  STRICT_JSON_TOTAL_NODES_LIMIT: (d) =>
+    `Das JSON-Dokument hat mehr als ${d.limit} Werte (überschritten bei ${d.path})`,
+  STRICT_JSON_KEY_NOT_ALLOWED: (d) =>
+    d.rule === undefined
+      ? `Der Schlüssel '${d.key}' bei ${d.path} ist laut Whitelist nicht erlaubt`
+      : `Der Schlüssel '${d.key}' bei ${d.path} ist durch die ${d.policy}-Regel '${d.rule}' nicht erlaubt`,
+  STRICT_JSON_TIMEOUT: (d) =>
+    d.limit === undefined
+      ? "Das Parsen des JSON wurde abgebrochen"
+      : `Das Parsen des JSON hat das Zeitbudget von ${d.limit} ms überschritten`,
+  STRICT_JSON_WORKER_QUEUE_FULL: () =>
+    "Der JSON-Parser ist ausgelastet, bitte später erneut versuchen",
+  STRICT_JSON_WORKER_TIMEOUT: () => "Der JSON-Parser ist nicht rechtzeitig fertig geworden",
+  STRICT_JSON_WORKER_FAILED: () => "Der JSON-Parser ist nicht verfügbar",
+};
+
+const fr: StrictJsonMessageCatalog = {
+  STRICT_JSON_DUPLICATE_KEY: (d) => `Clé JSON en double "${d.key}" à ${d.path}`,
+  STRICT_JSON_INVALID_JSON: syntaxErrorMessage(
+    "JSON invalide",
+    {
+      UnexpectedEndOfInput: "fin de l'entrée inattendue",
+      ValueExpected: "valeur attendue",
+      PropertyNameExpected: "nom de propriété attendu",
+      ColonExpected: "deux-points attendu",
+      CommaExpected: "virgule ou crochet fermant attendu",
+      EndOfInputExpected: "contenu inattendu après la valeur JSON",
+      InvalidSymbol: "symbole invalide",
+      InvalidNumberFormat: "format de nombre invalide",
+      InvalidCharacter: "caractère de contrôle non échappé dans la chaîne",
+      InvalidEscapeCharacter: "séquence d'échappement invalide",
+      InvalidUnicode: "séquence d'échappement Unicode invalide",
+      UnexpectedEndOfString: "chaîne non terminée",
+    },
+    (line, column) => `à la ligne ${line}, colonne ${column}`,
+  ),
+  STRICT_JSON_BODY_TOO_LARGE: (d) =>
+    `Le corps de la requête dépasse la taille maximale de ${d.limit} octets`,
+  STRICT_JSON_PROTOTYPE_POLLUTION: (d) =>
+    `Tentative de pollution de prototype détectée : clé dangereuse '${d.dangerousKey}' à ${d.path}`,
+  STRICT_JSON_DEPTH_LIMIT: (d) =>
+    `Profondeur JSON maximale dépassée : ${d.currentDepth} > ${d.maxDepth}`,
+  STRICT_JSON_UNSAFE_NUMBER: (d) =>
+    `Le nombre ${d.numberLiteral} à ${d.path} ne peut pas être représenté sans perte de précision`,
+  STRICT_JSON_KEYS_PER_OBJECT_LIMIT: (d) =>
+    `L'objet à ${d.path} contient plus de ${d.limit} clés`,
+  STRICT_JSON_ARRAY_LENGTH_LIMIT: (d) =>
+    `Le tableau à ${d.path} contient plus de ${d.limit} éléments`,
+  STRICT_JSON_STRING_LENGTH_LIMIT: (d) =>
+    `La chaîne à ${d.path} dépasse ${d.limit} caractères`,
+  STRICT_JSON_KEY_LENGTH_LIMIT: (d) =>
+    `L'objet à ${d.path} contient une clé de plus de ${d.limit} caractères`,
+  STRICT_JSON_TOTAL_NODES_LIMIT: (d) =>
+    `Le document JSON contient plus de ${d.limit} valeurs (dépassement à ${d.path})`,
+  STRICT_JSON_KEY_NOT_ALLOWED: (d) =>
+    d.rule === undefined
+      ? `La clé '${d.key}' à ${d.path} n'est pas autorisée par la liste blanche`
+      : `La clé '${d.key}' à ${d.path} n'est pas autorisée par la règle ${d.policy} '${d.rule}'`,
+  STRICT_JSON_TIMEOUT: (d) =>
+    d.limit === undefined
+      ? "L'analyse du JSON a été interrompue"
+      : `L'analyse du JSON a dépassé le budget de temps de ${d.limit} ms`,
+  STRICT_JSON_WORKER_QUEUE_FULL: () =>
+    "L'analyseur JSON est surchargé, veuillez réessayer plus tard",
+  STRICT_JSON_WORKER_TIMEOUT: () => "L'analyseur JSON n'a pas terminé à temps",
+  STRICT_JSON_WORKER_FAILED: () => "L'analyseur JSON est indisponible",
+};
+
+const es: StrictJsonMessageCatalog = {
+  STRICT_JSON_DUPLICATE_KEY: (d) => `Clave JSON duplicada "${d.key}" en ${d.path}`,
+  STRICT_JSON_INVALID_JSON: syntaxErrorMessage(
+    "JSON no válido",
+    {
+      UnexpectedEndOfInput: "fin de entrada inesperado",
+      ValueExpected: "se esperaba un valor",
+      PropertyNameExpected: "se esperaba un nombre de propiedad",
+      ColonExpected: "se esperaban dos puntos",
+      CommaExpected: "se esperaba una coma o un corchete de cierre",
+      EndOfInputExpected: "contenido inesperado después del valor JSON",
+      InvalidSymbol: "símbolo no válido",
+      InvalidNumberFormat: "formato de número no válido",
+      InvalidCharacter: "carácter de control sin escapar en la cadena",
+      InvalidEscapeCharacter: "secuencia de escape no válida",
+      InvalidUnicode: "secuencia de escape Unicode no válida",
+      UnexpectedEndOfString: "cadena sin terminar",
+    },
+    (line, column) => `en la línea ${line}, columna ${column}`,
+  ),
+  STRICT_JSON_BODY_TOO_LARGE: (d) =>
+    `El cuerpo de la solicitud supera el tamaño máximo de ${d.limit} bytes`,
+  STRICT_JSON_PROTOTYPE_POLLUTION: (d) =>
+    `Intento de contaminación de prototipos detectado: clave peligrosa '${d.dangerousKey}' en ${d.path}`,
+  STRICT_JSON_DEPTH_LIMIT: (d) =>
+    `Se superó el límite de profundidad JSON: ${d.currentDepth} > ${d.maxDepth}`,
+  STRICT_JSON_UNSAFE_NUMBER: (d) =>
+    `El número ${d.numberLiteral} en ${d.path} no se puede representar sin perder precisión`,
+  STRICT_JSON_KEYS_PER_OBJECT_LIMIT: (d) =>
+    `El objeto en ${d.path} tiene más de ${d.limit} claves`,
+  STRICT_JSON_ARRAY_LENGTH_LIMIT: (d) =>
+    `El array en ${d.path} tiene más de ${d.limit} elementos`,
+  STRICT_JSON_STRING_LENGTH_LIMIT: (d) =>
+    `La cadena en ${d.path} tiene más de ${d.limit} caracteres`,
+  STRICT_JSON_KEY_LENGTH_LIMIT: (d) =>
+    `El objeto en ${d.path} tiene una clave de más de ${d.limit} caracteres`,
+  STRICT_JSON_TOTAL_NODES_LIMIT: (d) =>
+    `El documento JSON tiene más de ${d.limit} valores (superado en ${d.path})`,
+  STRICT_JSON_KEY_NOT_ALLOWED: (d) =>
+    d.rule === undefined
+      ? `La clave '${d.key}' en ${d.path} no está permitida por la lista blanca`
+      : `La clave '${d.key}' en ${d.path} no está permitida por la regla ${d.policy} '${d.rule}'`,
+  STRICT_JSON_TIMEOUT: (d) =>
+    d.limit === undefined
+      ? "Se interrumpió el análisis del JSON"
+      : `El análisis del JSON superó el presupuesto de tiempo de ${d.limit} ms`,
+  STRICT_JSON_WORKER_QUEUE_FULL: () =>
+    "El analizador JSON está sobrecargado; inténtelo de nuevo más tarde",
+  STRICT_JSON_WORKER_TIMEOUT: () => "El analizador JSON no terminó a tiempo",
+  STRICT_JSON_WORKER_FAILED: () => "El analizador JSON no está disponible",
+};
+
+// Catalogs by lowercase language tag; registered catalogs are merged in
+const catalogs = new Map<string, StrictJsonMessageCatalog>([
+  ["en", en],
+  ["de", de],
+  ["fr", fr],
+  ["es", es],
+]);
+
+// Titles by lowercase language tag; locales without titles use English
+const titleCatalogs = new Map<string, Partial<Record<StrictJsonErrorCode, string>>>([
+  ["en", TITLES],
+  [
+    "de",
+    {
+      STRICT_JSON_DUPLICATE_KEY: "Doppelter JSON-Schlüssel",
+      STRICT_JSON_INVALID_JSON: "Ungültiges JSON",
+      STRICT_JSON_BODY_TOO_LARGE: "Anfragetext zu groß",
+      STRICT_JSON_PROTOTYPE_POLLUTION: "Versuch einer Prototype Pollution",
+      STRICT_JSON_DEPTH_LIMIT: "JSON-Verschachtelungstiefe überschritten",
+      STRICT_JSON_UNSAFE_NUMBER: "Unsichere JSON-Zahl",
+      STRICT_JSON_KEYS_PER_OBJECT_LIMIT: "Zu viele Schlüssel in einem JSON-Objekt",
+      STRICT_JSON_ARRAY_LENGTH_LIMIT: "JSON-Array zu lang",
+      STRICT_JSON_STRING_LENGTH_LIMIT: "JSON-Zeichenkette zu lang",
+      STRICT_JSON_KEY_LENGTH_LIMIT: "JSON-Schlüssel zu lang",
+      STRICT_JSON_TOTAL_NODES_LIMIT: "Zu viele JSON-Werte",
+      STRICT_JSON_KEY_NOT_ALLOWED: "JSON-Schlüssel nicht erlaubt",
+      STRICT_JSON_TIMEOUT: "Zeitüberschreitung beim Parsen des JSON",
+      STRICT_JSON_WORKER_QUEUE_FULL: "JSON-Parser ausgelastet",
+      STRICT_JSON_WORKER_TIMEOUT: "JSON-Parser ausgelastet",
+      STRICT_JSON_WORKER_FAILED: "JSON-Parser nicht verfügbar",
+    },
+  ],
+  [
+    "fr",
+    {
+      STRICT_JSON_DUPLICATE_KEY: "Clé JSON en double",
+      STRICT_JSON_INVALID_JSON: "JSON invalide",
+      STRICT_JSON_BODY_TOO_LARGE: "Corps de la requête trop volumineux",
+      STRICT_JSON_PROTOTYPE_POLLUTION: "Tentative de pollution de prototype",
+      STRICT_JSON_DEPTH_LIMIT: "Profondeur JSON maximale dépassée",
+      STRICT_JSON_UNSAFE_NUMBER: "Nombre JSON non sûr",
+      STRICT_JSON_KEYS_PER_OBJECT_LIMIT: "Trop de clés dans un objet JSON",
+      STRICT_JSON_ARRAY_LENGTH_LIMIT: "Tableau JSON trop long",
+      STRICT_JSON_STRING_LENGTH_LIMIT: "Chaîne JSON trop longue",
+      STRICT_JSON_KEY_LENGTH_LIMIT: "Clé JSON trop longue",
+      STRICT_JSON_TOTAL_NODES_LIMIT: "Trop de valeurs JSON",
+      STRICT_JSON_KEY_NOT_ALLOWED: "Clé JSON non autorisée",
+      STRICT_JSON_TIMEOUT: "Délai d'analyse du JSON dépassé",
+      STRICT_JSON_WORKER_QUEUE_FULL: "Analyseur JSON surchargé",
+      STRICT_JSON_WORKER_TIMEOUT: "Analyseur JSON surchargé",
+      STRICT_JSON_WORKER_FAILED: "Analyseur JSON indisponible",
+    },
+  ],
+  [
+    "es",
+    {
+      STRICT_JSON_DUPLICATE_KEY: "Clave JSON duplicada",
+      STRICT_JSON_INVALID_JSON: "JSON no válido",
+      STRICT_JSON_BODY_TOO_LARGE: "Cuerpo de la solicitud demasiado grande",
+      STRICT_JSON_PROTOTYPE_POLLUTION: "Intento de contaminación de prototipos",
+      STRICT_JSON_DEPTH_LIMIT: "Límite de profundidad JSON superado",
+      STRICT_JSON_UNSAFE_NUMBER: "Número JSON no seguro",
+      STRICT_JSON_KEYS_PER_OBJECT_LIMIT: "Demasiadas claves en un objeto JSON",
+      STRICT_JSON_ARRAY_LENGTH_LIMIT: "Array JSON demasiado largo",
+      STRICT_JSON_STRING_LENGTH_LIMIT: "Cadena JSON demasiado larga",
+      STRICT_JSON_KEY_LENGTH_LIMIT: "Clave JSON demasiado larga",
+      STRICT_JSON_TOTAL_NODES_LIMIT: "Demasiados valores JSON",
+      STRICT_JSON_KEY_NOT_ALLOWED: "Clave JSON no permitida",
+      STRICT_JSON_TIMEOUT: "Tiempo de análisis del JSON agotado",
+      STRICT_JSON_WORKER_QUEUE_FULL: "Analizador JSON sobrecargado",
+      STRICT_JSON_WORKER_TIMEOUT: "Analizador JSON sobrecargado",
+      STRICT_JSON_WORKER_FAILED: "Analizador JSON no disponible",
+    },
+  ],
+]);
+
+// Registered locale for a tag: the exact tag, then its primary language
+const findLocale = (tag: string): string | undefined => {
+  const normalized = tag.trim().toLowerCase();
+  if (catalogs.has(normalized)) return normalized;
+  const language = normalized.split("-")[0] ?? "";
+  return catalogs.has(language) ? language : undefined;
+};
+
+/**
+ * Registers messages for a locale (e.g., "pl" or "de-CH").
+ * Entries are merged over the locale's existing catalog, so a built-in locale
+ * can be reworded one code at a time. Codes missing from a catalog fall back
+ * to English.
+ * @param titles - Summaries of the codes, which never echo input (see getErrorTitle)
+ */
+export function registerMessageCatalog(
+  locale: string,
+  catalog: StrictJsonMessageCatalog,
+  titles?: Partial<Record<StrictJsonErrorCode, string>>,
+): void {
+  const key = locale.trim().toLowerCase();
+  catalogs.set(key, { ...catalogs.get(key), ...catalog });
+  if (titles) titleCatalogs.set(key, { ...titleCatalogs.get(key), ...titles });
+}
+
+/**
+ * Returns the locales that have a catalog.
+ */
+export function getMessageLocales(): string[] {
+  return [...catalogs.keys()];
+}
+
+/**
+ * Returns the summary of an error code, which never echoes input.
+ * @param locale - Language tag (default: "en"); titles missing from a locale are English
+ */
+export function getErrorTitle(code: StrictJsonErrorCode, locale = DEFAULT_LOCALE): string {
+  return titleCatalogs.get(findLocale(locale) ?? DEFAULT_LOCALE)?.[code] ?? TITLES[code];
+}
+
+/**
+ * Renders the built-in English message of an error, as thrown by the parser.
+ */
+export function defaultErrorMessage(details: StrictJsonErrorDetails): string {
+  return en[details.code](sanitize(details));
+}
+
+/**
+ * Renders the message of an error in a locale.
+ * @param details - Error details (code and the values the message refers to)
+ * @param locale - Language tag (default: "en"); "de-AT" falls back to "de"
+ */
+export function formatErrorMessage(details: StrictJsonErrorDetails, locale = DEFAULT_LOCALE): string {
+  const catalog = catalogs.get(findLocale(locale) ?? DEFAULT_LOCALE);
+  const template = catalog?.[details.code] ?? catalogs.get(DEFAULT_LOCALE)?.[details.code];
+  return template ? template(sanitize(details)) : details.message;
+}
+
+/**
+ * Picks the registered locale that best matches an Accept-Language header.
+ * @param acceptLanguage - Header value, e.g. "de-CH,de;q=0.9,en;q=0.8"
+ * @param fallback - Locale used when nothing matches (default: "en")
+ */
+export function negotiateLocale(
+  acceptLanguage: string | string[] | undefined,
+  fallback = DEFAULT_LOCALE,
+): string {
+  const header = Array.isArray(acceptLanguage) ? acceptLanguage.join(",") : acceptLanguage;
+  if (!header) return fallback;
+
+  const ranges = header
+    .split(",")
+    .map((part) => {
+      const [tag = "", ...params] = part.split(";");
+      const q = params.map((param) => param.trim()).find((param) => param.startsWith("q="));
+      return { tag: tag.trim(), q: q === undefined ? 1 : Number(q.slice(2)) };
+    })
+    .filter((range) => range.tag !== "" && range.q > 0)
+    // Array.prototype.sort is stable, so equal weights keep the header order
+    .sort((a, b) => b.q - a.q);
+
+  for (const { tag } of ranges) {
+    if (tag === "*") return fallback;
+    const locale = findLocale(tag);
+    if (locale) return locale;
+  }
+  return fallback;
+}
+
+/**
+ * Rewrites the message of an error (and of its collected violations) in a
+ * locale. The adapters localize a copy of the error, so handlers and logs
+ * keep the English messages.
+ */
+export function localizeError(error: StrictJsonError, locale: string): void {
+  const details = error.details;
+  details.message = formatErrorMessage(details, locale);
+  error.message = details.message;
+  for (const violation of details.violations ?? []) {
+    violation.message = formatErrorMessage(violation, locale);
+  }
+}
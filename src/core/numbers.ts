@@ -0,0 +1,91 @@
+/**
+ * Precision checks for JSON number literals
+ */
+
+// Literals this short always survive the round trip through a double
+// (at most 15 significant digits and no exponent to overflow)
+const MAX_SAFE_LITERAL_LENGTH = 15;
+
+/**
+ * Reduces a decimal literal to its significant digits and exponent
+ * (e.g., "-120.50" and "-1.205e2" both become "-1205e-1")
+ * @param literal - Decimal literal as written in JSON or produced by String(number)
+ * @returns Canonical form used to compare literals by value
+ */
+function canonicalDecimal(literal: string): string {
+  let text = literal;
+  let sign = "";
+  if (text[0] === "-") {
+    sign = "-";
+    text = text.slice(1);
+  }
+
+  let exponent = 0;
+  const exponentIndex = text.search(/[eE]/);
+  if (exponentIndex !== -1) {
+    exponent = Number(text.slice(exponentIndex + 1));
+    text = text.slice(0, exponentIndex);
+  }
+
+  const dotIndex = text.indexOf(".");
+  if (dotIndex !== -1) {
+    exponent -= text.length - dotIndex - 1;
+    text = text.slice(0, dotIndex) + text.slice(dotIndex + 1);
+  }
+
+  let start = 0;
+  while (start < text.length - 1 && text[start] === "0") start++;
+  let end = text.length;
+  while (end > start + 1 && text[end - 1] === "0") {
+    end--;
+    exponent++;
+  }
+
+  const digits = text.slice(start, end);
+  if (digits === "0") return "0";
+  return `${sign}${digits}e${exponent}`;
+}
+
+/**
+ * Checks whether a JSON number literal is represented exactly by a JavaScript number.
+ * Literals with a fraction or exponent are judged by their value: one that is
+ * an integer beyond Number.MAX_SAFE_INTEGER (e.g., "1e20") is unsafe like the
+ * same integer written out.
+ * @param literal - Number literal as written in JSON (e.g., "9007199254740993")
+ * @param isInteger - True when the literal has no fraction or exponent
+ * @returns True if materializing the literal as a number loses no information
+ */
+export function isLosslessNumber(literal: string, isInteger: boolean): boolean {
+  if (
+    literal.length <= MAX_SAFE_LITERAL_LENGTH &&
+    (isInteger || !/[eE]/.test(literal))
+  ) {
+    return true;
+  }
+
+  const value = Number(literal);
+  if (isInteger) {
+    return Number.isSafeInteger(value);
+  }
+  if (!Number.isFinite(value) || (Number.isInteger(value) && !Number.isSafeInteger(value))) {
+    return false;
+  }
+  return canonicalDecimal(literal) === canonicalDecimal(String(value));
+}
+
+/**
+ * Converts a literal with a fraction or exponent to a bigint when it
+ * denotes an integer (e.g., "1e20" or "1.5e300")
+ * @param literal - Number literal as written in JSON
+ * @returns The integer, or undefined for a fraction or a value beyond the range of a double
+ */
+export function toExactBigInt(literal: string): bigint | undefined {
+  // The range of a double bounds the exponent, so the power stays small
+  if (!Number.isFinite(Number(literal))) return undefined;
+  const canonical = canonicalDecimal(literal);
+  if (canonical === "0") return BigInt(0);
+  const exponentIndex = canonical.indexOf("e");
+  const exponent = Number(canonical.slice(exponentIndex + 1));
+  if (exponent < 0) return undefined;
+  return BigInt(canonical.slice(0, exponentIndex)) * BigInt(10) ** BigInt(exponent);
+}
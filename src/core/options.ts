@@ -0,0 +1,329 @@
+/**
+ * Validation of StrictJsonOptions and resolution of their defaults
+ */
+
+import { StrictJsonConfigurationError } from "./errors.js";
+import { getKeyPolicy } from "./pattern-matcher.js";
+import { DEFAULT_DANGEROUS_KEYS } from "./tokenizer.js";
+import type { StrictJsonConfigurationIssue, StrictJsonOptions } from "./types.js";
+
+// Options with a single default, filled in by resolveStrictJsonOptions
+const DEFAULTS = {
+  enablePrototypePollutionProtection: true,
+  keyPolicySyntax: "legacy",
+  keyPolicyLint: "warn",
+  explainKeyDecisions: false,
+  maxDepth: 20,
+  streamingThreshold: 100 * 1024, // 100KB
+  chunkSize: 64 * 1024, // 64KB
+  enableWorkerPool: false,
+  workerThreshold: 1024 * 1024, // 1MB
+  workerQueueLimit: 100,
+  workerTimeoutMs: 10000,
+  lazyMode: false,
+  lazyModeThreshold: 100 * 1024, // 100KB
+  lazyModeDepthLimit: 10,
+  lazyModeSkipPrototype: true,
+  lazyModeSkipWhitelist: true,
+  lazyModeSkipBlacklist: false,
+  enableCache: true,
+  cacheSize: 1000,
+  cacheTTL: 60000, // 60 seconds
+  enableFastPath: false,
+  collectAllViolations: false,
+  maxViolations: 100,
+  includeExcerpt: false,
+  omitInputFromResponses: false,
+  duplicateKeyPolicy: "reject",
+  numberMode: "native",
+  errorFormat: "default",
+  localeFromAcceptLanguage: false,
+} satisfies StrictJsonOptions;
+
+/**
+ * Validated options with every default filled in (see resolveStrictJsonOptions)
+ */
+export type ResolvedStrictJsonOptions = Readonly<
+  StrictJsonOptions &
+    Required<Pick<StrictJsonOptions, keyof typeof DEFAULTS | "dangerousKeys">>
+>;
+
+// Describes what is wrong with a value, if anything
+type OptionCheck = (value: unknown) => string | undefined;
+
+const count =
+  (min: number): OptionCheck =>
+  (value) =>
+    typeof value === "number" && (Number.isInteger(value) || value === Infinity) && value >= min
+      ? undefined
+      : `must be an integer >= ${min}`;
+
+const duration: OptionCheck = (value) =>
+  typeof value === "number" && value > 0 ? undefined : "must be a positive number of milliseconds";
+
+const boolean: OptionCheck = (value) =>
+  typeof value === "boolean" ? undefined : "must be a boolean";
+
+const string: OptionCheck = (value) => (typeof value === "string" ? undefined : "must be a string");
+
+const strings: OptionCheck = (value) =>
+  Array.isArray(value) && value.every((item) => typeof item === "string")
+    ? undefined
+    : "must be an array of strings";
+
+const handler: OptionCheck = (value) =>
+  typeof value === "function" ? undefined : "must be a function";
+
+const oneOf =
+  (...values: string[]): OptionCheck =>
+  (value) =>
+    values.includes(value as string)
+      ? undefined
+      : `must be one of ${values.map((item) => JSON.stringify(item)).join(", ")}`;
+
+// Every option; a new option fails to compile until it is listed here
+const OPTION_CHECKS: { [K in keyof Required<StrictJsonOptions>]: OptionCheck } = {
+  maxBodySizeBytes: count(0),
+  enablePrototypePollutionProtection: boolean,
+  dangerousKeys: strings,
+  onDuplicateKey: handler,
+  onDuplicateKeyWarning: handler,
+  onInvalidJson: handler,
+  onBodyTooLarge: handler,
+  onPrototypePollution: handler,
+  onKeyNotAllowed: handler,
+  onDepthLimit: handler,
+  onKeysPerObjectLimit: handler,
+  onArrayLengthLimit: handler,
+  onStringLengthLimit: handler,
+  onKeyLengthLimit: handler,
+  onTotalNodesLimit: handler,
+  onTimeout: handler,
+  onError: handler,
+  whitelist: strings,
+  blacklist: strings,
+  keyPolicySyntax: oneOf("pattern", "legacy"),
+  explainKeyDecisions: boolean,
+  keyPolicyLint: oneOf("warn", "error", "off"),
+  maxDepth: count(0),
+  ignoreCase: boolean,
+  maxKeysPerObject: count(0),
+  maxArrayLength: count(0),
+  maxStringLength: count(0),
+  maxKeyLength: count(0),
+  maxTotalNodes: count(0),
+  timeBudgetMs: duration,
+  signal: (value) => (value instanceof AbortSignal ? undefined : "must be an AbortSignal"),
+  enableStreaming: boolean,
+  streamingThreshold: count(0),
+  chunkSize: count(1),
+  enableWorkerPool: boolean,
+  workerThreshold: count(0),
+  workerPoolSize: count(1),
+  workerQueueLimit: count(0),
+  workerTimeoutMs: duration,
+  workerScript: (value) =>
+    typeof value === "string" || value instanceof URL ? undefined : "must be a path or a URL",
+  lazyMode: boolean,
+  lazyModeThreshold: count(0),
+  lazyModeDepthLimit: count(0),
+  lazyModeSkipPrototype: boolean,
+  lazyModeSkipWhitelist: boolean,
+  lazyModeSkipBlacklist: boolean,
+  enableCache: boolean,
+  // 0 would evict every entry as it is stored
+  cacheSize: (value) => {
+    const problem = count(1)(value);
+    return problem && `${problem}; use enableCache: false to disable the cache`;
+  },
+  cacheTTL: duration,
+  enableFastPath: boolean,
+  collectAllViolations: boolean,
+  maxViolations: count(1),
+  includeExcerpt: boolean,
+  maxEchoLength: count(0),
+  sensitiveKeys: strings,
+  omitInputFromResponses: boolean,
+  duplicateKeyPolicy: oneOf("reject", "first-wins", "last-wins", "collect"),
+  duplicateKeyAllowList: strings,
+  numberMode: oneOf("native", "reject", "bigint", "string"),
+  numberModePaths: strings,
+  errorFormat: oneOf("default", "problem+json"),
+  problemTypeBaseUri: string,
+  errorResponseFormatter: handler,
+  locale: string,
+  localeFromAcceptLanguage: boolean,
+};
+
+const OPTION_NAMES = new Set(Object.keys(OPTION_CHECKS));
+
+const describeValue = (value: unknown): string =>
+  typeof value === "string"
+    ? JSON.stringify(value)
+    : Array.isArray(value)
+      ? "an array"
+      : value === null || typeof value !== "object"
+        ? String(value)
+        : "an object";
+
+const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Option an unknown key is probably a typo of (e.g., maxBodySize)
+const suggestOption = (key: string): string | undefined => {
+  const typo = key.toLowerCase();
+  let best: string | undefined;
+  let bestDistance = 3;
+  for (const name of OPTION_NAMES) {
+    const lower = name.toLowerCase();
+    const distance =
+      typo.length >= 4 && (lower.startsWith(typo) || typo.startsWith(lower))
+        ? 0
+        : editDistance(typo, lower);
+    if (distance < bestDistance) {
+      best = name;
+      bestDistance = distance;
+    }
+  }
+  return best;
+};
+
+const findIssues = (options: StrictJsonOptions): StrictJsonConfigurationIssue[] => {
+  const issues: StrictJsonConfigurationIssue[] = [];
+  for (const [key, value] of Object.entries(options)) {
+    if (!OPTION_NAMES.has(key)) {
+      const suggestion = suggestOption(key);
+      issues.push({
+        code: "UNKNOWN_OPTION",
+        message: `Unknown option "${key}"${suggestion ? ` (did you mean "${suggestion}"?)` : ""}`,
+      });
+      continue;
+    }
+    const problem =
+      value === undefined ? undefined : OPTION_CHECKS[key as keyof StrictJsonOptions](value);
+    if (problem) {
+      issues.push({
+        code: "INVALID_OPTION",
+        message: `"${key}" ${problem} (got ${describeValue(value)})`,
+      });
+    }
+  }
+  if (issues.some((issue) => issue.code === "INVALID_OPTION")) return issues;
+
+  const maxDepth = options.maxDepth ?? DEFAULTS.maxDepth;
+  if (options.lazyModeDepthLimit !== undefined && options.lazyModeDepthLimit > maxDepth) {
+    issues.push({
+      code: "CONFLICTING_OPTIONS",
+      message: `"lazyModeDepthLimit" (${options.lazyModeDepthLimit}) is larger than "maxDepth" (${maxDepth}) and has no effect: lazy mode limits the depth to the smaller of the two`,
+    });
+  }
+  if (options.lazyMode === true && options.enableFastPath === true) {
+    issues.push({
+      code: "CONFLICTING_OPTIONS",
+      message: `"lazyMode" and "enableFastPath" cannot be combined: the fast path bypasses the lazy mode settings`,
+    });
+  }
+  if (options.whitelist !== undefined || options.blacklist !== undefined) {
+    try {
+      getKeyPolicy(options.whitelist, options.blacklist, options.keyPolicySyntax);
+    } catch (error) {
+      issues.push({ code: "MALFORMED_PATTERN", message: (error as Error).message });
+    }
+  }
+  return issues;
+};
+
+// Stands for missing options in the cache
+const NO_OPTIONS: StrictJsonOptions = {};
+
+// Resolved options by the object passed in, with a copy of its properties
+// at the time, so a later change to the object resolves it again
+const resolvedOptions = new WeakMap<
+  StrictJsonOptions,
+  { snapshot: StrictJsonOptions; resolved: ResolvedStrictJsonOptions }
+>();
+const resolvedObjects = new WeakSet<object>();
+
+const hasSameProperties = (options: StrictJsonOptions, snapshot: StrictJsonOptions): boolean => {
+  const keys = Object.keys(options) as Array<keyof StrictJsonOptions>;
+  return (
+    keys.length === Object.keys(snapshot).length &&
+    keys.every((key) => options[key] === snapshot[key])
+  );
+};
+
+/**
+ * Validates options and fills in their defaults. Options are resolved once
+ * per state of the object: using it again returns the same frozen result
+ * until one of its properties is changed, which validates and resolves it
+ * again. Arrays (e.g., `whitelist`) are compared by identity, so replace
+ * them instead of changing them in place. A resolved object is returned as
+ * is. Unknown keys (e.g., a typo'd `maxBodySize`) are reported as process
+ * warnings.
+ * @param options - Options as passed by the application
+ * @returns Frozen options with every default filled in
+ * @throws StrictJsonConfigurationError listing invalid values, conflicting
+ * options and malformed whitelist/blacklist patterns
+ */
+export function resolveStrictJsonOptions(options?: StrictJsonOptions): ResolvedStrictJsonOptions {
+  const input = options ?? NO_OPTIONS;
+  if (resolvedObjects.has(input)) return input as ResolvedStrictJsonOptions;
+  const cached = resolvedOptions.get(input);
+  if (cached && hasSameProperties(input, cached.snapshot)) return cached.resolved;
+
+  if (typeof input !== "object") {
+    throw new StrictJsonConfigurationError("Invalid strict JSON options: expected an object", [
+      { code: "INVALID_OPTION", message: `Options must be an object (got ${describeValue(input)})` },
+    ]);
+  }
+
+  const issues = findIssues(input);
+  const errors = issues.filter((issue) => issue.code !== "UNKNOWN_OPTION");
+  if (errors.length > 0) {
+    throw new StrictJsonConfigurationError(
+      `Invalid strict JSON options:\n${errors.map((issue) => `- ${issue.message}`).join("\n")}`,
+      errors,
+    );
+  }
+  for (const issue of issues) {
+    process.emitWarning(issue.message, {
+      type: "StrictJsonOptionsWarning",
+      code: `STRICT_JSON_${issue.code}`,
+    });
+  }
+
+  const resolved: ResolvedStrictJsonOptions = Object.freeze({
+    ...DEFAULTS,
+    dangerousKeys: DEFAULT_DANGEROUS_KEYS,
+    ...Object.fromEntries(Object.entries(input).filter(([, value]) => value !== undefined)),
+  });
+  resolvedOptions.set(input, { snapshot: { ...input }, resolved });
+  resolvedObjects.add(resolved);
+  return resolved;
+}
+
+/**
+ * Copies resolved options with settings the library sets itself (e.g., a
+ * request's abort signal), without validating them again.
+ */
+export function deriveResolvedOptions(
+  options: ResolvedStrictJsonOptions,
+  overrides: StrictJsonOptions,
+): ResolvedStrictJsonOptions {
+  const derived = Object.freeze({ ...options, ...overrides });
+  resolvedObjects.add(derived);
+  return derived;
+}
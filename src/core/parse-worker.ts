@@ -0,0 +1,50 @@
+import { parentPort } from "node:worker_threads";
+import { InvalidJsonError, StrictJsonError } from "./errors.js";
+import { StrictJsonTokenizer } from "./tokenizer.js";
+import type { StrictJsonOptions } from "./types.js";
+import type { WorkerJobMessage, WorkerReplyMessage } from "./worker-pool.js";
+
+// Options compiled once per pattern array (see getCompiledKeyPolicy)
+const PATTERN_OPTIONS = ["whitelist", "blacklist", "duplicateKeyAllowList", "numberModePaths"] as const;
+const MAX_PATTERN_LISTS = 100;
+
+const patternLists = new Map<string, string[]>();
+
+/**
+ * Returns the first array received with the same patterns. Every job
+ * carries cloned options, so without this each job would compile its key
+ * policy again.
+ */
+export function internPatterns(patterns: string[]): string[] {
+  const key = JSON.stringify(patterns);
+  let interned = patternLists.get(key);
+  if (!interned) {
+    // Bounded for services building policies per request
+    if (patternLists.size >= MAX_PATTERN_LISTS) patternLists.clear();
+    interned = patterns;
+    patternLists.set(key, interned);
+  }
+  return interned;
+}
+
+const internOptionPatterns = (options: StrictJsonOptions | undefined): void => {
+  for (const name of PATTERN_OPTIONS) {
+    const patterns = options?.[name];
+    if (patterns) options[name] = internPatterns(patterns);
+  }
+};
+
+// Worker thread entry point used by StrictJsonWorkerPool
+parentPort?.on("message", ({ id, buf, options }: WorkerJobMessage) => {
+  let reply: WorkerReplyMessage;
+  try {
+    internOptionPatterns(options);
+    const tokenizer = new StrictJsonTokenizer(options);
+    const value = tokenizer.parse(Buffer.from(buf.buffer, buf.byteOffset, buf.byteLength));
+    reply = { id, value, warnings: tokenizer.warnings.map((warning) => warning.details) };
+  } catch (e) {
+    const error = e instanceof StrictJsonError ? e : new InvalidJsonError("Invalid JSON");
+    reply = { id, error: error.details };
+  }
+  parentPort?.postMessage(reply);
+});
@@ -1,24 +1,32 @@
 import {
   BodyTooLargeError,
-  DepthLimitError,
-  DuplicateKeyError,
   InvalidJsonError,
   PrototypePollutionError,
+  StrictJsonError,
 } from "./errors.js";
-import { parseTree, type Node, type ParseError } from "jsonc-parser";
-import type { StrictJsonErrorHandler, StrictJsonOptions } from "./types.js";
-import { isKeyAllowed } from "./utils.js";
+import type { StrictJsonOptions } from "./types.js";
+import {
+  deriveResolvedOptions,
+  resolveStrictJsonOptions,
+  type ResolvedStrictJsonOptions,
+} from "./options.js";
+import {
+  invokeErrorHandlerAsync,
+  invokeErrorHandlerSync,
+  reportErrorAsync,
+  reportErrorSync,
+} from "./handlers.js";
 import { StreamingJsonParser } from "./streaming-parser.js";
-
-const DEFAULT_CACHE_TTL = 60000; // 60 seconds
-const DEFAULT_CACHE_SIZE = 1000; // Max 1000 cached results
+import { StrictJsonTokenizer } from "./tokenizer.js";
+import { getWorkerPool, shouldUseWorkerPool } from "./worker-pool.js";
+import { appendKeyToPath } from "./path.js";
 
 class LRUCache<K, V> {
   private cache: Map<K, { value: V; timestamp: number }>;
   private maxSize: number;
   private ttl: number;
 
-  constructor(maxSize: number = DEFAULT_CACHE_SIZE, ttl: number = DEFAULT_CACHE_TTL) {
+  constructor(maxSize: number, ttl: number) {
     this.cache = new Map();
     this.maxSize = maxSize;
     this.ttl = ttl;
@@ -74,8 +82,9 @@ class LRUCache<K, V> {
   }
 }
 
-// Global cache instance
-const parseCache = new LRUCache<string, unknown>();
+// Global cache instance, sized by the defaults until a parse configures it
+const defaults = resolveStrictJsonOptions();
+const parseCache = new LRUCache<string, unknown>(defaults.cacheSize, defaults.cacheTTL);
 
 // Cache cleanup interval (every 5 minutes)
 const cacheCleanupInterval = setInterval(() => {
@@ -94,17 +103,14 @@ export function getParseCacheSize(): number {
   return parseCache.size;
 }
 
-function buildCacheKey(jsonStr: string, options?: StrictJsonOptions): string {
-  if (!options) {
-    return jsonStr;
-  }
-
+function buildCacheKey(jsonStr: string, options: ResolvedStrictJsonOptions): string {
   const normalizedOptions = {
     maxBodySizeBytes: options.maxBodySizeBytes,
     enablePrototypePollutionProtection: options.enablePrototypePollutionProtection,
     dangerousKeys: options.dangerousKeys,
     whitelist: options.whitelist,
     blacklist: options.blacklist,
+    keyPolicySyntax: options.keyPolicySyntax,
     maxDepth: options.maxDepth,
     ignoreCase: options.ignoreCase,
     enableStreaming: options.enableStreaming,
@@ -117,167 +123,29 @@ function buildCacheKey(jsonStr: string, options?: StrictJsonOptions): string {
     lazyModeSkipWhitelist: options.lazyModeSkipWhitelist,
     lazyModeSkipBlacklist: options.lazyModeSkipBlacklist,
     enableFastPath: options.enableFastPath,
+    collectAllViolations: options.collectAllViolations,
+    maxViolations: options.maxViolations,
+    duplicateKeyPolicy: options.duplicateKeyPolicy,
+    duplicateKeyAllowList: options.duplicateKeyAllowList,
+    numberMode: options.numberMode,
+    numberModePaths: options.numberModePaths,
+    maxKeysPerObject: options.maxKeysPerObject,
+    maxArrayLength: options.maxArrayLength,
+    maxStringLength: options.maxStringLength,
+    maxKeyLength: options.maxKeyLength,
+    maxTotalNodes: options.maxTotalNodes,
   };
 
   return `${jsonStr}::${JSON.stringify(normalizedOptions)}`;
 }
 
-type Duplicate = { key: string; path: string } | null;
-type DangerousKey = { key: string; path: string } | null;
-
-// Optimized iterative version of findDuplicateInNode with lazy mode support
-interface StackFrame {
-  node: Node;
-  path: string;
-  depth: number;
-  seenKeys: Set<string>;
-}
-
-const findDuplicateInNode = (
-  node: Node,
-  path = "$",
-  options?: StrictJsonOptions,
-  depth = 0
-): Duplicate | DangerousKey => {
-  // Lazy mode configuration
-  const lazyMode = options?.lazyMode === true;
-  const lazyModeDepthLimit = options?.lazyModeDepthLimit ?? 10;
-  const lazyModeSkipPrototype = options?.lazyModeSkipPrototype ?? true;
-  const lazyModeSkipWhitelist = options?.lazyModeSkipWhitelist ?? true;
-  const lazyModeSkipBlacklist = options?.lazyModeSkipBlacklist ?? false;
-
-  // Regular configuration
-  const maxDepth = options?.maxDepth ?? 20;
-  
-  // Pre-compute frequently used values for better performance
-  const enablePrototypeProtection = options?.enablePrototypePollutionProtection !== false;
-  const shouldCheckPrototype = enablePrototypeProtection && 
-    !(lazyMode && lazyModeSkipPrototype);
-  
-  // Use Set for O(1) lookup instead of Array.includes O(n)
-  const dangerousKeysSet = shouldCheckPrototype
-    ? new Set(options?.dangerousKeys || ['__proto__', 'constructor', 'prototype'])
-    : new Set<string>();
-  
-  // Pre-compute whitelist/blacklist check to avoid repeated property access
-  const hasWhitelistOrBlacklist = options?.whitelist !== undefined || options?.blacklist !== undefined;
-  const shouldCheckWhitelist = hasWhitelistOrBlacklist &&
-    !(lazyMode && lazyModeSkipWhitelist);
-  const shouldCheckBlacklist = hasWhitelistOrBlacklist && 
-    !(lazyMode && lazyModeSkipBlacklist);
-  const shouldValidateKeyPolicy = shouldCheckWhitelist || shouldCheckBlacklist;
-
-  // Determine effective depth limit (lazy mode or normal mode)
-  const effectiveDepthLimit = lazyMode ? Math.min(maxDepth, lazyModeDepthLimit) : maxDepth;
-
-  // Use stack for iterative traversal instead of recursion
-  const stack: StackFrame[] = [
-    { node, path, depth, seenKeys: new Set<string>() }
-  ];
-
-  while (stack.length > 0) {
-    const { node: currentNode, path: currentPath, depth: currentDepth, seenKeys: currentSeenKeys } = stack.pop()!;
-    
-    // Check depth limit
-    if (currentDepth > effectiveDepthLimit) {
-      throw new DepthLimitError(currentDepth, effectiveDepthLimit);
-    }
-
-    // Process object nodes
-    if (currentNode.type === "object") {
-      for (let i = (currentNode.children?.length ?? 0) - 1; i >= 0; i--) {
-        const prop = currentNode.children?.[i];
-        if (prop?.type !== "property" || !prop.children || prop.children.length < 2)
-          continue;
-
-        const [keyNode, valueNode] = prop.children;
-        const key = String(keyNode.value ?? "");
-        const keyPath = `${currentPath}.${key}`;
-
-        // Enforce whitelist/blacklist policy when enabled.
-        if (shouldValidateKeyPolicy) {
-          if (!isKeyAllowed(keyPath, options?.whitelist, options?.blacklist)) {
-            throw new InvalidJsonError(`Key '${key}' at ${keyPath} is not allowed`);
-          }
-        }
-
-        // Check for prototype pollution (if enabled and not skipped)
-        if (shouldCheckPrototype && dangerousKeysSet.has(key)) {
-          throw new PrototypePollutionError(key, keyPath);
-        }
-
-        // Check for duplicate keys (always critical!)
-        if (currentSeenKeys.has(key)) {
-          return { key, path: keyPath };
-        }
-        currentSeenKeys.add(key);
-
-        // Add nested objects/arrays to stack
-        stack.push({
-          node: valueNode,
-          path: keyPath,
-          depth: currentDepth + 1,
-          seenKeys: new Set<string>(),
-        });
-      }
-    }
-    
-    // Process array nodes
-    else if (currentNode.type === "array") {
-      for (let i = (currentNode.children?.length ?? 0) - 1; i >= 0; i--) {
-        const child = currentNode.children?.[i];
-        if (!child) continue;
-        
-        stack.push({
-          node: child,
-          path: `${currentPath}[${i}]`,
-          depth: currentDepth + 1,
-          seenKeys: new Set<string>(),
-        });
-      }
-    }
-  }
-
-  return null;
-};
-
-const findDuplicateKeysInJson = (
-  jsonStr: string,
-  options?: StrictJsonOptions
-): Duplicate => {
-  const errors: ParseError[] = [];
-  const root = parseTree(jsonStr, errors, {
-    allowTrailingComma: false,
-    disallowComments: true,
-    allowEmptyContent: false,
-  });
-
-  if (!root || errors.length > 0) return null;
-  
-  // This will throw PrototypePollutionError, DepthLimitError, or InvalidJsonError
-  // if detected during traversal
-  try {
-    return findDuplicateInNode(root, "$", options) as Duplicate;
-  } catch (e) {
-    // Re-throw custom errors - they'll be caught by parseStrictJson
-    if (
-      e instanceof PrototypePollutionError ||
-      e instanceof DepthLimitError ||
-      e instanceof InvalidJsonError
-    ) {
-      throw e;
-    }
-    throw e;
-  }
-};
-
 // Fast path for simple validation (when enableFastPath is true)
-function parseWithFastPath(jsonStr: string, options?: StrictJsonOptions): unknown {
+function parseWithFastPath(jsonStr: string, options: ResolvedStrictJsonOptions): unknown {
   try {
     const parsed = JSON.parse(jsonStr);
     
     // Only check for prototype pollution (fast check)
-    if (options?.enablePrototypePollutionProtection !== false) {
+    if (options.enablePrototypePollutionProtection) {
       const dangerousKeys = new Set(['__proto__', 'constructor', 'prototype']);
       
       function checkPrototypePollution(obj: unknown, path: string = '$'): void {
@@ -288,7 +156,7 @@ function parseWithFastPath(jsonStr: string, options?: StrictJsonOptions): unknow
               throw new PrototypePollutionError(key, path);
             }
             if (typeof record[key] === 'object' && record[key] !== null) {
-              checkPrototypePollution(record[key], `${path}.${key}`);
+              checkPrototypePollution(record[key], appendKeyToPath(path, key));
             }
           }
         }
@@ -307,86 +175,53 @@ function parseWithFastPath(jsonStr: string, options?: StrictJsonOptions): unknow
 // Helper function to check if streaming should be used
 function shouldUseStreamingForPayload(
   buffer: Buffer,
-  options?: StrictJsonOptions
+  options: ResolvedStrictJsonOptions
 ): boolean {
-  if (options?.enableStreaming === false) {
+  if (options.enableStreaming === false) {
     return false;
   }
 
-  const threshold = options?.streamingThreshold ?? 100 * 1024; // 100KB default
-  
   // Auto-enable streaming for large payloads
-  if (buffer.length >= threshold) {
+  if (buffer.length >= options.streamingThreshold) {
     return true;
   }
 
   return false;
 }
 
-// Parse large payload using streaming parser
-async function parseLargePayload(buffer: Buffer, options?: StrictJsonOptions): Promise<unknown> {
-  return new Promise((resolve, reject) => {
-    const streamingParser = new StreamingJsonParser(options);
-    
-    streamingParser.on('data', (data) => {
-      resolve(data);
-    });
-    
-    streamingParser.on('error', (error) => {
-      reject(error);
-    });
-    
-    streamingParser.on('end', () => {
-      try {
-        const jsonStr = buffer.toString('utf-8');
-        const parsed = JSON.parse(jsonStr);
-        resolve(parsed);
-      } catch (error) {
-        reject(error);
-      }
-    });
-    
-    streamingParser.write(buffer);
+// Parse large payload chunk by chunk using the streaming parser
+async function parseLargePayload(
+  buffer: Buffer,
+  options: ResolvedStrictJsonOptions
+): Promise<StreamingJsonParser> {
+  const streamingParser = new StreamingJsonParser(options);
+
+  await new Promise<void>((resolve, reject) => {
+    streamingParser.on('finish', resolve);
+    streamingParser.on('error', reject);
+    streamingParser.resume();
+
+    for (
+      let offset = 0;
+      offset < buffer.length && !streamingParser.destroyed;
+      offset += options.chunkSize
+    ) {
+      streamingParser.write(buffer.subarray(offset, offset + options.chunkSize));
+    }
     streamingParser.end();
   });
-}
 
-// Custom error handler wrapper - sync version
-const invokeErrorHandlerSync = (
-  handler: StrictJsonErrorHandler | undefined,
-  error: unknown
-): void => {
-  if (handler) {
-    try {
-      handler(error);
-    } catch (handlerError) {
-      // Handler errors should not prevent original error from being thrown
-      // Do nothing, just ignore handler errors
-    }
-  }
-};
-
-// Custom error handler wrapper - async version
-const invokeErrorHandlerAsync = async (
-  handler: StrictJsonErrorHandler | undefined,
-  error: unknown
-): Promise<void> => {
-  if (handler) {
-    try {
-      await handler(error);
-    } catch (handlerError) {
-      // Handler errors should not prevent original error from being thrown
-      // Do nothing, just ignore handler errors
-    }
-  }
-};
+  return streamingParser;
+}
 
 // Synchronous version (no async handler support)
 export const parseStrictJson = (
   raw: string | Buffer,
-  options?: StrictJsonOptions,
+  rawOptions?: StrictJsonOptions,
 ): unknown => {
-  const maxBodySizeBytes = options?.maxBodySizeBytes;
+  // Invalid options throw as configuration errors, not as invalid JSON
+  const options = resolveStrictJsonOptions(rawOptions);
+  const maxBodySizeBytes = options.maxBodySizeBytes;
   const buf = typeof raw === "string" ? Buffer.from(raw, "utf8") : raw;
 
   // Check body size limit
@@ -395,8 +230,7 @@ export const parseStrictJson = (
     buf.byteLength > maxBodySizeBytes
   ) {
     const error = new BodyTooLargeError(maxBodySizeBytes);
-    invokeErrorHandlerSync(options?.onBodyTooLarge, error);
-    invokeErrorHandlerSync(options?.onError, error);
+    reportErrorSync(error, options);
     throw error;
   }
 
@@ -404,12 +238,9 @@ export const parseStrictJson = (
   const cacheKey = buildCacheKey(jsonStr, options);
   
   // Try cache first (if enabled)
-  if (options?.enableCache !== false) {
-    const cacheSize = options?.cacheSize ?? DEFAULT_CACHE_SIZE;
-    const cacheTTL = options?.cacheTTL ?? DEFAULT_CACHE_TTL;
-    
+  if (options.enableCache) {
     // Ensure cache is configured with correct size and TTL
-    parseCache.configure(cacheSize, cacheTTL);
+    parseCache.configure(options.cacheSize, options.cacheTTL);
     
     const cached = parseCache.get(cacheKey);
     if (cached !== null) {
@@ -417,11 +248,11 @@ export const parseStrictJson = (
     }
   }
 
-  // Determine if we should use streaming for large payloads
+  // Payloads large enough for streaming skip the fast path; synchronously the
+  // whole buffer is already in memory, so they go straight to the tokenizer
   const useStreaming = shouldUseStreamingForPayload(buf, options);
-  const lazyMode = options?.lazyMode === true;
-  const lazyModeThreshold = options?.lazyModeThreshold ?? 100 * 1024;
-  const enableFastPath = options?.enableFastPath === true;
+  // JSON.parse in the fast path cannot preserve unsafe numbers
+  const enableFastPath = options.enableFastPath && options.numberMode === "native";
 
   try {
     // Fast path for simple validation (if enabled)
@@ -429,7 +260,7 @@ export const parseStrictJson = (
       try {
         const result = parseWithFastPath(jsonStr, options);
         // Cache the result
-        if (options?.enableCache !== false) {
+        if (options.enableCache) {
           parseCache.set(cacheKey, result);
         }
         return result;
@@ -439,84 +270,40 @@ export const parseStrictJson = (
       }
     }
 
-    // For large payloads with streaming enabled, use streaming parser
-    if (useStreaming) {
-      // Synchronous streaming is not possible, fall back to regular parser
-      // but with lazy mode optimizations
-      const parsed = JSON.parse(jsonStr);
-      
-      // Cache the result
-      if (options?.enableCache !== false) {
-        parseCache.set(cacheKey, parsed);
-      }
-      
-      return parsed;
-    }
-
     // Auto-enable lazy mode for payloads above threshold (if lazyMode is not explicitly set)
-    const shouldUseLazyMode = lazyMode || (buf.length >= lazyModeThreshold);
-
-    // Prepare options with lazy mode settings if applicable
-    const effectiveOptions: StrictJsonOptions | undefined = shouldUseLazyMode ? {
-      ...options,
-      lazyMode: true,
-      lazyModeDepthLimit: options?.lazyModeDepthLimit ?? 10,
-      lazyModeSkipPrototype: options?.lazyModeSkipPrototype ?? true,
-      lazyModeSkipWhitelist: options?.lazyModeSkipWhitelist ?? true,
-      lazyModeSkipBlacklist: options?.lazyModeSkipBlacklist ?? false,
-    } : options;
-
-    // Check for duplicate keys, prototype pollution, depth limit, and whitelist/blacklist
-    const duplicate = findDuplicateKeysInJson(jsonStr, effectiveOptions);
-    if (duplicate) {
-      const error = new DuplicateKeyError(duplicate.path, duplicate.key);
-      invokeErrorHandlerSync(options?.onDuplicateKey, error);
-      invokeErrorHandlerSync(options?.onError, error);
-      throw error;
+    const shouldUseLazyMode = options.lazyMode || buf.length >= options.lazyModeThreshold;
+
+    // The lazy mode settings are already resolved
+    const effectiveOptions = shouldUseLazyMode
+      ? deriveResolvedOptions(options, { lazyMode: true })
+      : options;
+
+    // Parse while checking duplicate keys, prototype pollution, depth limit, and whitelist/blacklist
+    const tokenizer = new StrictJsonTokenizer(effectiveOptions);
+    const parsed = tokenizer.parse(buf);
+
+    // Report duplicates tolerated by the duplicate key policy
+    for (const warning of tokenizer.warnings) {
+      invokeErrorHandlerSync(options.onDuplicateKeyWarning, warning);
     }
 
-    const parsed = JSON.parse(jsonStr);
-    
-    // Cache the result
-    if (options?.enableCache !== false) {
+    // Cache the result (unless duplicates were tolerated, so every request gets reported)
+    if (options.enableCache && tokenizer.warnings.length === 0) {
       parseCache.set(cacheKey, parsed);
     }
 
     return parsed;
   } catch (e) {
-    // Handle prototype pollution errors thrown from findDuplicateInNode
-    if (e instanceof PrototypePollutionError) {
-      invokeErrorHandlerSync(options?.onPrototypePollution, e);
-      invokeErrorHandlerSync(options?.onError, e);
-      throw e;
-    }
-
-    // Handle depth limit errors thrown from findDuplicateInNode
-    if (e instanceof DepthLimitError) {
-      invokeErrorHandlerSync(options?.onError, e);
-      throw e;
-    }
-
     // Handle custom errors that were already thrown
-    if (
-      e instanceof DuplicateKeyError ||
-      e instanceof BodyTooLargeError
-    ) {
+    if (e instanceof BodyTooLargeError) {
       // Error handlers already invoked above, just rethrow
       throw e;
     }
 
-    // Handle InvalidJsonError or other parsing errors
-    if (e instanceof InvalidJsonError) {
-      invokeErrorHandlerSync(options?.onInvalidJson, e);
-      invokeErrorHandlerSync(options?.onError, e);
-      throw e;
-    }
-
-    // Handle general JSON parse errors
-    const error = new InvalidJsonError("Invalid JSON");
-    invokeErrorHandlerSync(options?.onInvalidJson, error);
-    invokeErrorHandlerSync(options?.onError, error);
+    // Errors thrown from the tokenizer go to their dedicated handler;
+    // anything else is reported as invalid JSON
+    const error = e instanceof StrictJsonError ? e : new InvalidJsonError("Invalid JSON");
+    reportErrorSync(error, options);
     throw error;
   }
 };
@@ -524,9 +311,11 @@ export const parseStrictJson = (
 // Async version (full async handler support)
 export const parseStrictJsonAsync = async (
   raw: string | Buffer,
-  options?: StrictJsonOptions,
+  rawOptions?: StrictJsonOptions,
 ): Promise<unknown> => {
-  const maxBodySizeBytes = options?.maxBodySizeBytes;
+  // Invalid options throw as configuration errors, not as invalid JSON
+  const options = resolveStrictJsonOptions(rawOptions);
+  const maxBodySizeBytes = options.maxBodySizeBytes;
   const buf = typeof raw === "string" ? Buffer.from(raw, "utf8") : raw;
 
   // Check body size limit
@@ -535,8 +324,7 @@ export const parseStrictJsonAsync = async (
     buf.byteLength > maxBodySizeBytes
   ) {
     const error = new BodyTooLargeError(maxBodySizeBytes);
-    await invokeErrorHandlerAsync(options?.onBodyTooLarge, error);
-    await invokeErrorHandlerAsync(options?.onError, error);
+    await reportErrorAsync(error, options);
     throw error;
   }
 
@@ -544,12 +332,9 @@ export const parseStrictJsonAsync = async (
   const cacheKey = buildCacheKey(jsonStr, options);
 
   // Try cache first (if enabled)
-  if (options?.enableCache !== false) {
-    const cacheSize = options?.cacheSize ?? DEFAULT_CACHE_SIZE;
-    const cacheTTL = options?.cacheTTL ?? DEFAULT_CACHE_TTL;
-    
+  if (options.enableCache) {
     // Ensure cache is configured with correct size and TTL
-    parseCache.configure(cacheSize, cacheTTL);
+    parseCache.configure(options.cacheSize, options.cacheTTL);
     
     const cached = parseCache.get(cacheKey);
     if (cached !== null) {
@@ -557,19 +342,19 @@ export const parseStrictJsonAsync = async (
     }
   }
 
-  // Determine if we should use streaming for large payloads
+  // Determine if we should use a worker thread or streaming for large payloads
+  const useWorker = shouldUseWorkerPool(buf, options);
   const useStreaming = shouldUseStreamingForPayload(buf, options);
-  const lazyMode = options?.lazyMode === true;
-  const lazyModeThreshold = options?.lazyModeThreshold ?? 100 * 1024;
-  const enableFastPath = options?.enableFastPath === true;
+  // JSON.parse in the fast path cannot preserve unsafe numbers
+  const enableFastPath = options.enableFastPath && options.numberMode === "native";
 
   try {
     // Fast path for simple validation (if enabled)
-    if (enableFastPath && !useStreaming) {
+    if (enableFastPath && !useStreaming && !useWorker) {
       try {
         const result = parseWithFastPath(jsonStr, options);
         // Cache the result
-        if (options?.enableCache !== false) {
+        if (options.enableCache) {
           parseCache.set(cacheKey, result);
         }
         return result;
@@ -579,80 +364,74 @@ export const parseStrictJsonAsync = async (
       }
     }
 
+    // Auto-enable lazy mode for payloads above threshold (if lazyMode is not explicitly set)
+    const shouldUseLazyMode = options.lazyMode || buf.length >= options.lazyModeThreshold;
+
+    // The lazy mode settings are already resolved
+    const effectiveOptions = shouldUseLazyMode
+      ? deriveResolvedOptions(options, { lazyMode: true })
+      : options;
+
+    // Keep large payloads off the event loop when the worker pool is enabled
+    if (useWorker) {
+      const { value, warnings } = await getWorkerPool(options).run(buf, effectiveOptions);
+
+      // Report duplicates tolerated by the duplicate key policy
+      for (const warning of warnings) {
+        await invokeErrorHandlerAsync(options.onDuplicateKeyWarning, warning);
+      }
+
+      // Cache the result (unless duplicates were tolerated)
+      if (options.enableCache && warnings.length === 0) {
+        parseCache.set(cacheKey, value);
+      }
+
+      return value;
+    }
+
     // For large payloads with streaming enabled, use streaming parser
     if (useStreaming) {
-      const result = await parseLargePayload(buf, options);
-      // Cache the result
-      if (options?.enableCache !== false) {
-        parseCache.set(cacheKey, result);
+      const streamingParser = await parseLargePayload(buf, effectiveOptions);
+
+      // Report duplicates tolerated by the duplicate key policy
+      for (const warning of streamingParser.warnings) {
+        await invokeErrorHandlerAsync(options.onDuplicateKeyWarning, warning);
       }
-      return result;
+
+      // Cache the result (unless duplicates were tolerated)
+      if (options.enableCache && streamingParser.warnings.length === 0) {
+        parseCache.set(cacheKey, streamingParser.result);
+      }
+
+      return streamingParser.result;
     }
 
-    // Auto-enable lazy mode for payloads above threshold (if lazyMode is not explicitly set)
-    const shouldUseLazyMode = lazyMode || (buf.length >= lazyModeThreshold);
-
-    // Prepare options with lazy mode settings if applicable
-    const effectiveOptions: StrictJsonOptions | undefined = shouldUseLazyMode ? {
-      ...options,
-      lazyMode: true,
-      lazyModeDepthLimit: options?.lazyModeDepthLimit ?? 10,
-      lazyModeSkipPrototype: options?.lazyModeSkipPrototype ?? true,
-      lazyModeSkipWhitelist: options?.lazyModeSkipWhitelist ?? true,
-      lazyModeSkipBlacklist: options?.lazyModeSkipBlacklist ?? false,
-    } : options;
-
-    // Check for duplicate keys, prototype pollution, depth limit, and whitelist/blacklist
-    const duplicate = findDuplicateKeysInJson(jsonStr, effectiveOptions);
-    if (duplicate) {
-      const error = new DuplicateKeyError(duplicate.path, duplicate.key);
-      await invokeErrorHandlerAsync(options?.onDuplicateKey, error);
-      await invokeErrorHandlerAsync(options?.onError, error);
-      throw error;
+    // Parse while checking duplicate keys, prototype pollution, depth limit, and whitelist/blacklist
+    const tokenizer = new StrictJsonTokenizer(effectiveOptions);
+    const parsed = tokenizer.parse(buf);
+
+    // Report duplicates tolerated by the duplicate key policy
+    for (const warning of tokenizer.warnings) {
+      await invokeErrorHandlerAsync(options.onDuplicateKeyWarning, warning);
     }
 
-    const parsed = JSON.parse(jsonStr);
-    
-    // Cache the result
-    if (options?.enableCache !== false) {
+    // Cache the result (unless duplicates were tolerated, so every request gets reported)
+    if (options.enableCache && tokenizer.warnings.length === 0) {
       parseCache.set(cacheKey, parsed);
     }
 
     return parsed;
   } catch (e) {
-    // Handle prototype pollution errors thrown from findDuplicateInNode
-    if (e instanceof PrototypePollutionError) {
-      await invokeErrorHandlerAsync(options?.onPrototypePollution, e);
-      await invokeErrorHandlerAsync(options?.onError, e);
-      throw e;
-    }
-
-    // Handle depth limit errors thrown from findDuplicateInNode
-    if (e instanceof DepthLimitError) {
-      await invokeErrorHandlerAsync(options?.onError, e);
-      throw e;
-    }
-
     // Handle custom errors that were already thrown
-    if (
-      e instanceof DuplicateKeyError ||
-      e instanceof BodyTooLargeError
-    ) {
+    if (e instanceof BodyTooLargeError) {
       // Error handlers already invoked above, just rethrow
       throw e;
     }
 
-    // Handle InvalidJsonError or other parsing errors
-    if (e instanceof InvalidJsonError) {
-      await invokeErrorHandlerAsync(options?.onInvalidJson, e);
-      await invokeErrorHandlerAsync(options?.onError, e);
-      throw e;
-    }
-
-    // Handle general JSON parse errors
-    const error = new InvalidJsonError("Invalid JSON");
-    await invokeErrorHandlerAsync(options?.onInvalidJson, error);
-    await invokeErrorHandlerAsync(options?.onError, error);
+    // Errors thrown from the tokenizer go to their dedicated handler;
+    // anything else is reported as invalid JSON
+    const error = e instanceof StrictJsonError ? e : new InvalidJsonError("Invalid JSON");
+    await reportErrorAsync(error, options);
     throw error;
   }
 };
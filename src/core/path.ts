@@ -0,0 +1,78 @@
+/**
+ * Path formatting utilities for error reporting and key policy matching
+ */
+
+// Keys that would be ambiguous in dot notation (or unsafe to echo in logs)
+const NEEDS_BRACKETS = /[.[\]"\\\u0000-\u001f\u007f]/;
+
+// Control characters and line separators, escaped before input is echoed
+const CONTROL_CHARS = /[\u0000-\u001f\u007f-\u009f\u2028\u2029]/g;
+
+const SHORT_ESCAPES: Record<string, string> = {
+  "\b": "\\b",
+  "\f": "\\f",
+  "\n": "\\n",
+  "\r": "\\r",
+  "\t": "\\t",
+};
+
+/**
+ * Escapes control characters so echoed input cannot break lines in logs
+ * @param text - User input (e.g., a key)
+ * @returns Text with "\n", "\t", "\u0001", ... spelled out
+ */
+export function escapeControlChars(text: string): string {
+  return text.replace(
+    CONTROL_CHARS,
+    (c) => SHORT_ESCAPES[c] ?? `\\u${c.charCodeAt(0).toString(16).padStart(4, "0")}`,
+  );
+}
+
+/**
+ * Formats a single object key as a path segment
+ * @param key - Object key (e.g., "user" or "a.b")
+ * @returns ".user" for plain keys, '["a.b"]' for keys that need escaping
+ */
+export function formatKeySegment(key: string): string {
+  if (key.length === 0 || NEEDS_BRACKETS.test(key)) {
+    return `[${JSON.stringify(key)}]`;
+  }
+  return `.${key}`;
+}
+
+/**
+ * Appends an object key to a path, using bracket notation when the key
+ * contains characters that would otherwise read as nested structure
+ * @param path - Parent path (e.g., "$.data")
+ * @param key - Object key
+ * @returns Child path (e.g., "$.data.name" or '$.data["a.b"]')
+ */
+export function appendKeyToPath(path: string, key: string): string {
+  return path + formatKeySegment(key);
+}
+
+/**
+ * Escapes a reference token per RFC 6901 ("~" becomes "~0", "/" becomes "~1")
+ * @param segment - Object key or array index
+ * @returns Escaped reference token
+ */
+export function escapePointerSegment(segment: string | number): string {
+  const token = String(segment);
+  if (token.indexOf("~") === -1 && token.indexOf("/") === -1) {
+    return token;
+  }
+  return token.replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+/**
+ * Builds an RFC 6901 JSON Pointer from path segments
+ * @param segments - Object keys and array indices from the root
+ * @returns JSON Pointer (e.g., "/a~1b/0"); the empty string refers to the root
+ */
+export function toJsonPointer(segments: ReadonlyArray<string | number>): string {
+  let pointer = "";
+  for (const segment of segments) {
+    pointer += `/${escapePointerSegment(segment)}`;
+  }
+  return pointer;
+}
@@ -0,0 +1,567 @@
+/**
+ * Compiled glob patterns and whitelist/blacklist key policies
+ *
+ * Patterns are compiled once into matchers that run in time linear in the
+ * key path: a pattern without wildcards is a string comparison, and a pattern
+ * with wildcards is simulated as a set of positions in the pattern, so no
+ * input can make matching backtrack.
+ */
+
+import type {
+  KeyPolicyExplanation,
+  KeyPolicyRuleMatch,
+  KeyPolicySyntax,
+} from "./types.js";
+import { compilePatternKeyPolicy, type KeyPolicyAutomaton } from "./key-pattern.js";
+
+/**
+ * Rule of the key policy that rejected a key: the pattern that denied it,
+ * or the whitelist it is missing from (no pattern).
+ */
+export interface KeyPolicyViolation {
+  policy: "whitelist" | "blacklist";
+  rule?: string;
+}
+
+/**
+ * Compiled whitelist/blacklist policy
+ * @param key - Key path to check (e.g., "$.user" or "$.data[0].name")
+ * @returns The rejecting rule, or null if the key is allowed
+ */
+export type KeyPolicyMatcher = (key: string) => KeyPolicyViolation | null;
+
+// Matches a quoted key segment (["a.b"]) or an array index ([0])
+const QUOTED_SEGMENT_OR_INDEX = /\["(?:[^"\\]|\\.)*"\]|\[\d+\]/g;
+
+const CHAR_DOT = 0x2e;
+const CHAR_BRACKET_CLOSE = 0x5d;
+
+/**
+ * Removes the "$" root prefix from a key path
+ * Keys with dots or brackets keep their quoted form (e.g., '$["a.b"]' becomes '["a.b"]')
+ * @param key - Key path (e.g., "$.user" or '$["a.b"]')
+ * @returns Key path relative to the root
+ */
+export function stripRootPrefix(key: string): string {
+  if (key.startsWith("$.")) return key.slice(2);
+  if (key.startsWith("$[")) return key.slice(1);
+  return key;
+}
+
+/**
+ * Normalizes a key by replacing array indices [x] with [*]
+ * This allows patterns like "users.*.id" to match "users[0].id"
+ * Quoted key segments like ["x[0]"] are left untouched
+ * @param key - Key to normalize
+ * @returns Normalized key
+ */
+export function normalizeKeyForPatternMatching(key: string): string {
+  return key.replace(QUOTED_SEGMENT_OR_INDEX, (match) => (match.startsWith('["') ? match : "[*]"));
+}
+
+// Characters a step accepts, for comparing patterns: any character,
+// any but ".", any but "]" ... read as in globToRegex, only "]", or one code
+type GlobChars = "any" | "segment" | "bracket" | "close" | number;
+
+// One step of a compiled pattern: a single character, or a run of zero or
+// more characters (`repeat`) accepted by the same test
+interface GlobStep {
+  repeat: boolean;
+  accepts: (c: number) => boolean;
+  chars: GlobChars;
+}
+
+// `.` of a regular expression does not match line terminators
+const isLineTerminator = (c: number): boolean =>
+  c === 0x0a || c === 0x0d || c === 0x2028 || c === 0x2029;
+
+const ANY_CHAR: GlobStep = { repeat: false, accepts: (c) => !isLineTerminator(c), chars: "any" };
+const ANY_RUN: GlobStep = { repeat: true, accepts: (c) => !isLineTerminator(c), chars: "any" };
+const SEGMENT_RUN: GlobStep = { repeat: true, accepts: (c) => c !== CHAR_DOT, chars: "segment" };
+// `[^]]*` of globToRegex reads as any character followed by any number of "]"
+const BRACKET_CHAR: GlobStep = { repeat: false, accepts: () => true, chars: "bracket" };
+const BRACKET_RUN: GlobStep = {
+  repeat: true,
+  accepts: (c) => c === CHAR_BRACKET_CLOSE,
+  chars: "close",
+};
+
+// Steps of a pattern, matching exactly what globToRegex matches
+const compileSteps = (pattern: string): GlobStep[] => {
+  const steps: GlobStep[] = [];
+  let i = 0;
+  while (i < pattern.length) {
+    const char = pattern[i];
+    if (char === "*") {
+      if (pattern[i + 1] === "*") {
+        steps.push(ANY_RUN);
+        i += 2;
+        continue;
+      }
+      if (i + 1 >= pattern.length) {
+        steps.push(ANY_RUN);
+      } else if (pattern[i + 1] === "]") {
+        steps.push(BRACKET_CHAR, BRACKET_RUN);
+      } else {
+        steps.push(SEGMENT_RUN);
+      }
+    } else if (char === "?") {
+      steps.push(ANY_CHAR);
+    } else {
+      const code = pattern.charCodeAt(i);
+      steps.push({ repeat: false, accepts: (c) => c === code, chars: code });
+    }
+    i++;
+  }
+  return steps;
+};
+
+/**
+ * Compiles a glob pattern into a matcher with the semantics of globToRegex
+ * that never backtracks: each character of the key is tested once against
+ * every position the pattern may have reached.
+ * @param pattern - Glob pattern (e.g., "user.*", "secret", "data.**.name")
+ * @returns Function testing whether a whole key matches the pattern
+ */
+export function compileGlob(pattern: string): (key: string) => boolean {
+  if (!pattern.includes("*") && !pattern.includes("?")) {
+    return (key) => key === pattern;
+  }
+
+  const steps = compileSteps(pattern);
+  const count = steps.length;
+  // Reused between calls; matching is synchronous
+  let current = new Uint8Array(count + 1);
+  let next = new Uint8Array(count + 1);
+
+  // A run may match nothing, so reaching it also reaches the step after it
+  const skipEmptyRuns = (states: Uint8Array): void => {
+    for (let i = 0; i < count; i++) {
+      if (states[i] === 1 && steps[i].repeat) states[i + 1] = 1;
+    }
+  };
+
+  return (key) => {
+    current.fill(0);
+    current[0] = 1;
+    skipEmptyRuns(current);
+
+    for (let p = 0; p < key.length; p++) {
+      const c = key.charCodeAt(p);
+      next.fill(0);
+      let alive = false;
+      for (let i = 0; i < count; i++) {
+        if (current[i] === 1 && steps[i].accepts(c)) {
+          next[steps[i].repeat ? i : i + 1] = 1;
+          alive = true;
+        }
+      }
+      if (!alive) return false;
+      skipEmptyRuns(next);
+      [current, next] = [next, current];
+    }
+
+    return current[count] === 1;
+  };
+}
+
+// Whether characters accepted by `b` are all accepted by `a`, ignoring
+// line terminators in keys
+const charsCover = (a: GlobChars, b: GlobChars): boolean => {
+  switch (a) {
+    case "any":
+    case "bracket":
+      return true;
+    case "segment":
+      return b !== "any" && b !== "bracket" && b !== CHAR_DOT;
+    case "close":
+      return b === "close" || b === CHAR_BRACKET_CLOSE;
+    default:
+      return b === a;
+  }
+};
+
+/**
+ * Checks whether glob `a` matches every key glob `b` matches. A run of `a`
+ * covers single characters and runs of `b` it accepts; a run of `b` is never
+ * split across steps of `a`, so some covered globs are not recognized.
+ */
+export function globCovers(a: string, b: string): boolean {
+  const stepsA = compileSteps(a);
+  const stepsB = compileSteps(b);
+  // covers[i][j]: stepsA from i covers stepsB from j
+  const covers: boolean[][] = Array.from({ length: stepsA.length + 1 }, () =>
+    new Array<boolean>(stepsB.length + 1).fill(false),
+  );
+  covers[stepsA.length][stepsB.length] = true;
+
+  for (let i = stepsA.length - 1; i >= 0; i--) {
+    for (let j = stepsB.length; j >= 0; j--) {
+      const step = stepsA[i];
+      const accepted = j < stepsB.length && charsCover(step.chars, stepsB[j].chars);
+      covers[i][j] = step.repeat
+        ? covers[i + 1][j] || (accepted && covers[i][j + 1])
+        : accepted && !stepsB[j].repeat && covers[i + 1][j + 1];
+    }
+  }
+  return covers[0][0];
+}
+
+// Strings some of which may start a key, each with the pattern it comes from
+class PrefixTrie {
+  private readonly root: PrefixTrieNode = { children: new Map() };
+
+  public add(prefix: string, pattern: string): void {
+    let node = this.root;
+    for (let i = 0; i < prefix.length; i++) {
+      const code = prefix.charCodeAt(i);
+      let child = node.children.get(code);
+      if (!child) {
+        child = { children: new Map() };
+        node.children.set(code, child);
+      }
+      node = child;
+    }
+    node.pattern ??= pattern;
+  }
+
+  // Pattern of the shortest string that is a prefix of the key
+  public find(key: string): string | undefined {
+    let node: PrefixTrieNode | undefined = this.root;
+    for (let i = 0; node; i++) {
+      if (node.pattern !== undefined) return node.pattern;
+      if (i === key.length) return undefined;
+      node = node.children.get(key.charCodeAt(i));
+    }
+    return undefined;
+  }
+}
+
+interface PrefixTrieNode {
+  pattern?: string;
+  children: Map<number, PrefixTrieNode>;
+}
+
+// Patterns without wildcards are looked up, the others are simulated;
+// returns the first pattern matching the key
+const compileAny = (patterns: string[]): ((key: string) => string | undefined) => {
+  const literals = new Set<string>();
+  const globs: Array<{ pattern: string; matches: (key: string) => boolean }> = [];
+  for (const pattern of patterns) {
+    if (pattern.includes("*") || pattern.includes("?")) {
+      globs.push({ pattern, matches: compileGlob(pattern) });
+    } else {
+      literals.add(pattern);
+    }
+  }
+  return (key) => (literals.has(key) ? key : globs.find(({ matches }) => matches(key))?.pattern);
+};
+
+// Last dot-separated part of a key ("name" for "users[*].name")
+const lastDotPart = (key: string): string => key.slice(key.lastIndexOf(".") + 1);
+
+/**
+ * Outcome of a key policy for one key path, with the rule and the case of
+ * the policy that decided it
+ */
+export type KeyPolicyDecision = Pick<KeyPolicyExplanation, "allowed" | "reason" | "policy" | "rule">;
+
+/**
+ * Compiled key policy: the check run on every key, and the explanation of a decision
+ */
+export interface CompiledKeyPolicy {
+  check: KeyPolicyMatcher;
+  explain: (key: string) => KeyPolicyExplanation;
+  /** Pattern syntax only: the policy over path segments, for parsers tracking a state per container */
+  automaton?: KeyPolicyAutomaton;
+}
+
+type WhitelistMatch = Pick<KeyPolicyDecision, "reason" | "rule">;
+
+// Whitelist matching, including the parents of whitelisted paths
+const compileWhitelist = (
+  whitelist: string[],
+): ((key: string, matchKey: string) => WhitelistMatch | undefined) => {
+  // Patterns and their parents ("data" and "data.users" for "data.users")
+  const parents = new Map<string, string>();
+  // Keys of "*.key" patterns
+  const lastKeys = new Map<string, string>();
+  // Paths before the first wildcard ("response.data" for "response.data.*.id")
+  const wildcardParents = new Map<string, string>();
+  // Prefixes a key may start with: the path before "**", and the path
+  // before the first wildcard followed by "." or "["
+  const prefixes = new PrefixTrie();
+
+  const addOnce = (map: Map<string, string>, key: string, pattern: string) => {
+    if (!map.has(key)) map.set(key, pattern);
+  };
+  for (const pattern of whitelist) {
+    parents.set(pattern, pattern);
+    for (let i = 0; i < pattern.length; i++) {
+      if (pattern[i] === "." || pattern[i] === "[") addOnce(parents, pattern.slice(0, i), pattern);
+    }
+    if (pattern.startsWith("*.")) addOnce(lastKeys, pattern.slice(2), pattern);
+    const doubleStarIndex = pattern.indexOf("**");
+    if (doubleStarIndex > 0) prefixes.add(pattern.slice(0, doubleStarIndex), pattern);
+    const starIndex = pattern.indexOf("*");
+    if (starIndex > 0) {
+      const prefix = pattern.slice(0, starIndex);
+      const parent = prefix.endsWith(".") ? prefix.slice(0, -1) : prefix;
+      addOnce(wildcardParents, parent, pattern);
+      prefixes.add(parent + ".", pattern);
+      prefixes.add(parent + "[", pattern);
+    }
+  }
+  const matchesPattern = compileAny(whitelist);
+
+  return (key, matchKey) => {
+    const parentOf = parents.get(key) ?? wildcardParents.get(key);
+    if (parentOf !== undefined) {
+      return { reason: parentOf === key ? "whitelist-match" : "whitelist-parent", rule: parentOf };
+    }
+    const suffixOf = lastKeys.size > 0 ? lastKeys.get(lastDotPart(key)) : undefined;
+    if (suffixOf !== undefined) return { reason: "whitelist-suffix-key", rule: suffixOf };
+    const prefixOf = prefixes.find(key);
+    if (prefixOf !== undefined) return { reason: "whitelist-wildcard-prefix", rule: prefixOf };
+    const match = matchesPattern(matchKey);
+    return match === undefined ? undefined : { reason: "whitelist-match", rule: match };
+  };
+};
+
+/**
+ * Compiles legacy whitelist/blacklist globs into a key policy.
+ *
+ * A whitelist allows the keys matching one of its patterns and their parents
+ * (e.g., "data" for "data.users.*"); "*.key" allows a key under any parent.
+ * A blacklist rejects the keys matching one of its patterns, "*.key" and
+ * plain key names matching at any depth. Keys matching a whitelist pattern
+ * without wildcards are never blacklisted; keys matching a wildcard
+ * whitelist pattern are only rejected by a blacklist pattern matching them.
+ * @param whitelist - Array of glob patterns (optional, e.g., "user" or "data.*")
+ * @param blacklist - Array of glob patterns (optional, e.g., "password" or "*.secret")
+ * @returns Function deciding a key path
+ */
+function compileLegacyKeyPolicy(
+  whitelist?: string[],
+  blacklist?: string[],
+): (key: string) => KeyPolicyDecision {
+  // An empty whitelist denies all keys
+  if (whitelist && whitelist.length === 0) {
+    return () => ({ allowed: false, reason: "empty-whitelist", policy: "whitelist" });
+  }
+
+  const findWhitelisted = whitelist ? compileWhitelist(whitelist) : undefined;
+  const checkBlacklist = blacklist !== undefined && blacklist.length > 0;
+
+  // Whitelist patterns overriding the blacklist
+  const literalWhitelist = new Set(whitelist?.filter((pattern) => !pattern.includes("*")));
+  const literalWhitelistParents = new PrefixTrie();
+  literalWhitelist.forEach((pattern) => literalWhitelistParents.add(pattern + ".", pattern));
+  const findWildcardWhitelisted = compileAny(
+    whitelist?.filter((pattern) => pattern.includes("*")) ?? [],
+  );
+
+  const rules = (blacklist ?? []).map((pattern) => ({
+    pattern,
+    lastKey: pattern.startsWith("*.") ? pattern.slice(2) : undefined,
+    keyName: pattern.includes("*") ? undefined : pattern,
+    matches: compileGlob(pattern),
+  }));
+
+  return (key) => {
+    // Keys containing dots or brackets stay quoted (e.g., ["a.b"]) so they
+    // can never be mistaken for nested structure
+    const normalizedKey = stripRootPrefix(key);
+    const matchKey = normalizeKeyForPatternMatching(normalizedKey);
+
+    const whitelisted = findWhitelisted?.(normalizedKey, matchKey);
+    if (findWhitelisted && !whitelisted) {
+      return { allowed: false, reason: "not-whitelisted", policy: "whitelist" };
+    }
+    if (!checkBlacklist) {
+      return whitelisted
+        ? { allowed: true, policy: "whitelist", ...whitelisted }
+        : { allowed: true, reason: "no-policy" };
+    }
+
+    const literal = literalWhitelist.has(normalizedKey)
+      ? normalizedKey
+      : literalWhitelistParents.find(normalizedKey);
+    if (literal !== undefined) {
+      return {
+        allowed: true,
+        reason: "literal-whitelist-overrides-blacklist",
+        policy: "whitelist",
+        rule: literal,
+      };
+    }
+    const wildcard = whitelist ? findWildcardWhitelisted(matchKey) : undefined;
+    if (wildcard !== undefined) {
+      const rule = rules.find(({ matches }) => matches(matchKey));
+      return rule
+        ? { allowed: false, reason: "blacklist-match", policy: "blacklist", rule: rule.pattern }
+        : { allowed: true, reason: "wildcard-whitelist-allowed", policy: "whitelist", rule: wildcard };
+    }
+
+    for (const { pattern, lastKey, keyName, matches } of rules) {
+      const reason =
+        lastKey !== undefined && lastDotPart(normalizedKey) === lastKey
+          ? "blacklist-suffix-key"
+          : keyName !== undefined &&
+              normalizedKey.endsWith(keyName) &&
+              normalizedKey.charCodeAt(normalizedKey.length - keyName.length - 1) === CHAR_DOT
+            ? "blacklist-key-name"
+            : matches(matchKey)
+              ? "blacklist-match"
+              : undefined;
+      if (reason) return { allowed: false, reason, policy: "blacklist", rule: pattern };
+    }
+    return whitelisted
+      ? { allowed: true, policy: "whitelist", ...whitelisted }
+      : { allowed: true, reason: "not-blacklisted" };
+  };
+}
+
+// Every pattern matching a key path as a glob, ignoring the special cases
+const compileLegacyMatches = (
+  whitelist?: string[],
+  blacklist?: string[],
+): ((key: string) => KeyPolicyRuleMatch[]) => {
+  const rules = [
+    ...(whitelist ?? []).map((rule) => ({ policy: "whitelist" as const, rule, allows: true })),
+    ...(blacklist ?? []).map((rule) => ({ policy: "blacklist" as const, rule, allows: false })),
+  ].map((match) => ({ match, matches: compileGlob(match.rule) }));
+  return (key) => {
+    const matchKey = normalizeKeyForPatternMatching(stripRootPrefix(key));
+    return rules.filter(({ matches }) => matches(matchKey)).map(({ match }) => ({ ...match }));
+  };
+};
+
+/**
+ * Rule rejecting a key according to a decision, or null if the key is allowed
+ */
+export const toKeyPolicyViolation = ({
+  allowed,
+  policy,
+  rule,
+}: KeyPolicyDecision): KeyPolicyViolation | null =>
+  allowed ? null : { policy: policy ?? "whitelist", ...(rule !== undefined ? { rule } : {}) };
+
+const compilePolicy = (
+  whitelist: string[] | undefined,
+  blacklist: string[] | undefined,
+  syntax: KeyPolicySyntax,
+): CompiledKeyPolicy => {
+  if (syntax === "legacy") {
+    const decide = compileLegacyKeyPolicy(whitelist, blacklist);
+    let findMatches: ((key: string) => KeyPolicyRuleMatch[]) | undefined;
+    return {
+      check: (key) => toKeyPolicyViolation(decide(key)),
+      explain: (key) => {
+        findMatches ??= compileLegacyMatches(whitelist, blacklist);
+        return { path: key, syntax, ...decide(key), matches: findMatches(key) };
+      },
+    };
+  }
+
+  const automaton = compilePatternKeyPolicy(whitelist, blacklist);
+  return {
+    check: (key) => toKeyPolicyViolation(automaton.decide(automaton.find(key))),
+    explain: (key) => {
+      const matches: KeyPolicyRuleMatch[] = [];
+      return { path: key, syntax, ...automaton.decide(automaton.find(key), matches), matches };
+    },
+    automaton,
+  };
+};
+
+/**
+ * Compiles whitelist/blacklist patterns into a key policy
+ * @param whitelist - Array of patterns (optional, e.g., "user.**" or "!user.password")
+ * @param blacklist - Array of patterns (optional, e.g., "**.password")
+ * @param syntax - "pattern" for the pattern language (see key-pattern.ts),
+ * "legacy" for the globs of earlier versions (default: "legacy")
+ * @returns Function finding the rule that rejects a key path
+ * @throws Error on a malformed pattern
+ */
+export function compileKeyPolicy(
+  whitelist?: string[],
+  blacklist?: string[],
+  syntax: KeyPolicySyntax = "legacy",
+): KeyPolicyMatcher {
+  return compilePolicy(whitelist, blacklist, syntax).check;
+}
+
+// Compiled per pattern array, so options reused across requests compile once
+const NO_PATTERNS: string[] = [];
+const keyPolicies: Record<
+  KeyPolicySyntax,
+  WeakMap<string[], WeakMap<string[], CompiledKeyPolicy>>
+> = {
+  pattern: new WeakMap(),
+  legacy: new WeakMap(),
+};
+const pathMatchers = new WeakMap<string[], (key: string) => boolean>();
+
+/**
+ * Returns the compiled policy of whitelist/blacklist arrays, compiling it on
+ * first use. Pattern arrays are treated as immutable once used.
+ */
+export function getCompiledKeyPolicy(
+  whitelist?: string[],
+  blacklist?: string[],
+  syntax: KeyPolicySyntax = "legacy",
+): CompiledKeyPolicy {
+  let byBlacklist = keyPolicies[syntax].get(whitelist ?? NO_PATTERNS);
+  if (!byBlacklist) {
+    byBlacklist = new WeakMap();
+    keyPolicies[syntax].set(whitelist ?? NO_PATTERNS, byBlacklist);
+  }
+  let policy = byBlacklist.get(blacklist ?? NO_PATTERNS);
+  if (!policy) {
+    policy = compilePolicy(whitelist, blacklist, syntax);
+    byBlacklist.set(blacklist ?? NO_PATTERNS, policy);
+  }
+  return policy;
+}
+
+/**
+ * Returns the check of the compiled policy of whitelist/blacklist arrays
+ * (see getCompiledKeyPolicy).
+ */
+export function getKeyPolicy(
+  whitelist?: string[],
+  blacklist?: string[],
+  syntax: KeyPolicySyntax = "legacy",
+): KeyPolicyMatcher {
+  return getCompiledKeyPolicy(whitelist, blacklist, syntax).check;
+}
+
+// Writes array indices as "*" segments ("x.*.trace" for "x[0].trace"),
+// so a "*" between dots matches an array item too
+const indicesAsSegments = (key: string): string => {
+  const dotted = key.replace(QUOTED_SEGMENT_OR_INDEX, (match) =>
+    match.startsWith('["') ? match : ".*",
+  );
+  return dotted.startsWith(".") ? dotted.slice(1) : dotted;
+};
+
+/**
+ * Returns the compiled matcher of a path pattern array (patterns relative to
+ * the root, e.g., "data.*.trace"), compiling it on first use. A "*" segment
+ * matches an object key or an array item ("x.*.trace" and "x[*].trace" both
+ * match "$.x[0].trace").
+ */
+export function getPathMatcher(patterns: string[]): (key: string) => boolean {
+  let matcher = pathMatchers.get(patterns);
+  if (!matcher) {
+    const findPattern = compileAny(patterns);
+    matcher = (key) => {
+      const relative = stripRootPrefix(key);
+      if (findPattern(normalizeKeyForPatternMatching(relative)) !== undefined) return true;
+      return relative.includes("[") && findPattern(indicesAsSegments(relative)) !== undefined;
+    };
+    pathMatchers.set(patterns, matcher);
+  }
+  return matcher;
+}
@@ -0,0 +1,319 @@
+/**
+ * Registration-time checks of whitelist/blacklist policies
+ */
+
+import { StrictJsonConfigurationError } from "./errors.js";
+import {
+  compareSpecificity,
+  minimumSegments,
+  parseKeyPattern,
+  patternCovers,
+  type KeyPattern,
+} from "./key-pattern.js";
+import { globCovers } from "./pattern-matcher.js";
+import { DEFAULT_DANGEROUS_KEYS } from "./tokenizer.js";
+import type { KeyPolicyLintIssue, StrictJsonOptions } from "./types.js";
+
+interface LintedRule {
+  policy: "whitelist" | "blacklist";
+  source: string;
+  pattern: KeyPattern;
+  allows: boolean;
+}
+
+const DEFAULT_MAX_DEPTH = 20;
+
+const createIssue = (
+  code: KeyPolicyLintIssue["code"],
+  policy: "whitelist" | "blacklist",
+  rule: string,
+  problem: string,
+): KeyPolicyLintIssue => ({
+  code,
+  policy,
+  rule,
+  message: `${policy === "whitelist" ? "Whitelist" : "Blacklist"} rule "${rule}" ${problem}`,
+});
+
+// Dangerous key a whitelist rule names as its last segment
+const findDangerousKey = (pattern: KeyPattern, dangerousKeys: string[]): string | undefined => {
+  const last = pattern.steps[pattern.steps.length - 1];
+  if (last?.kind === "key") return dangerousKeys.find((key) => key === last.name);
+  if (last?.kind === "regex") return dangerousKeys.find((key) => last.regex.test(key));
+  return undefined;
+};
+
+// Why a legacy glob can match no key path, if it cannot
+const findGlobProblem = (glob: string): string | undefined => {
+  if (glob.length === 0) return "empty pattern";
+  if (glob.startsWith("$")) return 'key paths are matched without the "$" prefix';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === ".") {
+      if (i === 0 || i === glob.length - 1 || glob[i - 1] === "." || glob[i + 1] === "[") {
+        return "empty segment";
+      }
+    } else if (char === "[") {
+      let close: number;
+      if (glob[i + 1] === '"') {
+        close = i + 2;
+        while (close < glob.length && glob[close] !== '"') close += glob[close] === "\\" ? 2 : 1;
+        close++;
+        if (glob[close] !== "]") return "unterminated quoted key";
+      } else {
+        close = glob.indexOf("]", i);
+        if (!/^[\d*?]+$/.test(glob.slice(i + 1, close === -1 ? i + 1 : close))) {
+          return 'brackets hold "*", an array index or a quoted key';
+        }
+      }
+      i = close;
+    } else if (char === "]") {
+      return 'unexpected "]"';
+    }
+  }
+  return undefined;
+};
+
+// Number of segments of the shortest key path a legacy glob matches
+const globSegments = (glob: string): number => {
+  let segments = 1;
+  for (let i = 1; i < glob.length; i++) {
+    if (glob[i] === '"' && glob[i - 1] === "[") {
+      i++;
+      while (i < glob.length && glob[i] !== '"') i += glob[i] === "\\" ? 2 : 1;
+    } else if (glob[i] === "." || glob[i] === "[") {
+      segments++;
+    }
+  }
+  return segments;
+};
+
+// Legacy globs: a literal whitelist entry overrides the blacklist for the
+// key and its children, and the blacklist only denies keys matching a
+// wildcard whitelist entry when one of its globs matches them
+const lintLegacyKeyPolicy = (
+  options: StrictJsonOptions | undefined,
+  dangerousKeys: string[],
+): KeyPolicyLintIssue[] => {
+  const issues: KeyPolicyLintIssue[] = [];
+  const rules: Record<"whitelist" | "blacklist", string[]> = { whitelist: [], blacklist: [] };
+  for (const policy of ["whitelist", "blacklist"] as const) {
+    for (const rule of options?.[policy] ?? []) {
+      const problem = findGlobProblem(rule);
+      if (problem !== undefined) {
+        issues.push(createIssue("MALFORMED_PATTERN", policy, rule, `is malformed: ${problem}`));
+      } else if (rules[policy].includes(rule)) {
+        issues.push(createIssue("DUPLICATE_PATTERN", policy, rule, "is listed twice"));
+      } else {
+        rules[policy].push(rule);
+      }
+    }
+  }
+
+  const literalWhitelist = rules.whitelist.filter((rule) => !rule.includes("*"));
+  const maxDepth = options?.maxDepth ?? DEFAULT_MAX_DEPTH;
+  for (const rule of rules.whitelist) {
+    const key = rule.slice(rule.lastIndexOf(".") + 1);
+    if (dangerousKeys.includes(key)) {
+      issues.push(
+        createIssue("DANGEROUS_KEY_WHITELISTED", "whitelist", rule, `allows the dangerous key "${key}"`),
+      );
+    }
+    if (globCovers(rule, "**")) {
+      issues.push(
+        createIssue("USELESS_PATTERN", "whitelist", rule, "matches every key, so the whitelist denies none"),
+      );
+      continue;
+    }
+    const deny = rule.includes("*")
+      ? rules.blacklist.find((blacklisted) => globCovers(blacklisted, rule))
+      : undefined;
+    if (deny !== undefined) {
+      issues.push(
+        createIssue(
+          "UNREACHABLE_WHITELIST_RULE",
+          "whitelist",
+          rule,
+          `never allows a key: the blacklist rule "${deny}" denies every key it matches`,
+        ),
+      );
+    } else if (!rule.startsWith("*.") && globSegments(rule) > maxDepth) {
+      issues.push(
+        createIssue(
+          "UNREACHABLE_WHITELIST_RULE",
+          "whitelist",
+          rule,
+          `never allows a key: it only matches keys deeper than maxDepth (${maxDepth})`,
+        ),
+      );
+    }
+  }
+
+  for (const rule of rules.blacklist) {
+    const literal = literalWhitelist.find(
+      (entry) => rule === entry || rule.startsWith(entry + "."),
+    );
+    if (literal !== undefined) {
+      issues.push(
+        createIssue(
+          "SHADOWED_BLACKLIST_RULE",
+          "blacklist",
+          rule,
+          `never denies a key: the literal whitelist rule "${literal}" overrides it`,
+        ),
+      );
+    }
+  }
+  return issues;
+};
+
+/**
+ * Finds contradictory, unreachable and malformed whitelist/blacklist rules.
+ * With the pattern syntax, a blacklist rule is shadowed when a more specific
+ * allow covers every key it matches, and a whitelist rule is unreachable when
+ * an equally or more specific deny covers it or its keys are deeper than
+ * `maxDepth`. With legacy globs, a blacklist rule is shadowed when a literal
+ * whitelist entry covers it, and a whitelist rule is unreachable when a
+ * blacklist glob matches every key it matches or its keys are deeper than
+ * `maxDepth`; globs matching no key are malformed, and a whitelist glob
+ * matching every key is useless. Duplicates and whitelisted prototype
+ * pollution keys are found with both syntaxes.
+ * @param options - Options with `whitelist`, `blacklist` and `keyPolicySyntax`
+ * @returns Issues found, malformed and duplicate rules first
+ */
+export function lintKeyPolicy(options?: StrictJsonOptions): KeyPolicyLintIssue[] {
+  const dangerousKeys = options?.dangerousKeys ?? DEFAULT_DANGEROUS_KEYS;
+  if (options?.keyPolicySyntax !== "pattern") {
+    return lintLegacyKeyPolicy(options, dangerousKeys);
+  }
+
+  const issues: KeyPolicyLintIssue[] = [];
+  const rules: LintedRule[] = [];
+  for (const policy of ["whitelist", "blacklist"] as const) {
+    for (const source of options?.[policy] ?? []) {
+      let pattern: KeyPattern;
+      try {
+        pattern = parseKeyPattern(source);
+      } catch (error) {
+        const reason =
+          error instanceof StrictJsonConfigurationError
+            ? error.issues[0]?.message
+            : (error as Error).message;
+        issues.push(createIssue("MALFORMED_PATTERN", policy, source, `is malformed: ${reason}`));
+        continue;
+      }
+      const allows = policy === "whitelist" ? !pattern.negated : pattern.negated;
+      const duplicate = rules.find(
+        (rule) =>
+          rule.policy === policy &&
+          rule.allows === allows &&
+          patternCovers(rule.pattern, pattern) &&
+          patternCovers(pattern, rule.pattern),
+      );
+      if (duplicate) {
+        issues.push(createIssue("DUPLICATE_PATTERN", policy, source, `duplicates "${duplicate.source}"`));
+        continue;
+      }
+      rules.push({ policy, source, pattern, allows });
+    }
+  }
+
+  const maxDepth = options?.maxDepth ?? DEFAULT_MAX_DEPTH;
+  for (const rule of rules) {
+    const { policy, source, pattern } = rule;
+    if (policy === "blacklist" && !rule.allows) {
+      const allow = rules.find(
+        (other) =>
+          other.allows &&
+          compareSpecificity(other.pattern, pattern) > 0 &&
+          patternCovers(other.pattern, pattern),
+      );
+      if (allow) {
+        issues.push(
+          createIssue(
+            "SHADOWED_BLACKLIST_RULE",
+            policy,
+            source,
+            `never denies a key: the more specific ${allow.policy} rule "${allow.source}" allows every key it matches`,
+          ),
+        );
+      }
+    }
+
+    if (policy === "whitelist" && rule.allows) {
+      const deny = rules.find(
+        (other) =>
+          !other.allows &&
+          compareSpecificity(other.pattern, pattern) >= 0 &&
+          patternCovers(other.pattern, pattern),
+      );
+      if (deny) {
+        issues.push(
+          createIssue(
+            "UNREACHABLE_WHITELIST_RULE",
+            policy,
+            source,
+            `never allows a key: the ${deny.policy} rule "${deny.source}" denies every key it matches`,
+          ),
+        );
+      } else if (minimumSegments(pattern) > maxDepth) {
+        issues.push(
+          createIssue(
+            "UNREACHABLE_WHITELIST_RULE",
+            policy,
+            source,
+            `never allows a key: it only matches keys deeper than maxDepth (${maxDepth})`,
+          ),
+        );
+      }
+
+      const dangerousKey = findDangerousKey(pattern, dangerousKeys);
+      if (dangerousKey !== undefined) {
+        issues.push(
+          createIssue(
+            "DANGEROUS_KEY_WHITELISTED",
+            policy,
+            source,
+            `allows the dangerous key "${dangerousKey}"`,
+          ),
+        );
+      }
+    }
+  }
+  return issues;
+}
+
+// Options already checked, so a policy registered twice warns once
+const checkedOptions = new WeakSet<StrictJsonOptions>();
+
+/**
+ * Lints the key policy of options being registered (see lintKeyPolicy).
+ * With `keyPolicyLint: "warn"` (default) issues are emitted as process
+ * warnings, with "error" they are thrown; malformed patterns are always
+ * thrown. Options are checked once.
+ * @throws StrictJsonConfigurationError listing the issues
+ */
+export function checkKeyPolicy(options?: StrictJsonOptions): void {
+  if (!options || options.keyPolicyLint === "off" || checkedOptions.has(options)) return;
+  if (options.whitelist === undefined && options.blacklist === undefined) return;
+
+  const issues = lintKeyPolicy(options);
+  const errors =
+    options.keyPolicyLint === "error"
+      ? issues
+      : issues.filter((issue) => issue.code === "MALFORMED_PATTERN");
+  if (errors.length > 0) {
+    throw new StrictJsonConfigurationError(
+      `Invalid key policy:\n${errors.map((issue) => `- ${issue.message}`).join("\n")}`,
+      errors,
+    );
+  }
+
+  checkedOptions.add(options);
+  for (const issue of issues) {
+    process.emitWarning(issue.message, {
+      type: "StrictJsonPolicyWarning",
+      code: `STRICT_JSON_${issue.code}`,
+    });
+  }
+}
@@ -0,0 +1,114 @@
+/**
+ * Named option presets
+ *
+ * The values are part of the public API. A release may tighten a preset (a
+ * lower limit, one more check) but never loosens one, and every change is
+ * listed in the changelog.
+ */
+
+import { resolveStrictJsonOptions } from "./options.js";
+import type { StrictJsonOptions } from "./types.js";
+
+const KB = 1024;
+const MB = 1024 * KB;
+
+/**
+ * Names of the built-in presets
+ */
+export type StrictJsonPresetName = "strict" | "balanced" | "throughput";
+
+/**
+ * Built-in option presets:
+ * - strict: small bodies, tight structural limits, every check on every
+ *   payload, unsafe numbers rejected and no input echoed to clients
+ * - balanced: limits for typical API bodies, every check on every payload
+ * - throughput: large bodies, streaming and a larger cache; lazy mode on
+ *   payloads from 1MB skips the whitelist (prototype and blacklist checks
+ *   stay) and limits the depth to the default lazyModeDepthLimit (10)
+ * No preset enables the fast path, which skips duplicate key and limit checks.
+ * Presets are frozen so one service cannot change them for the others.
+ */
+export const presets: Readonly<Record<StrictJsonPresetName, Readonly<StrictJsonOptions>>> =
+  Object.freeze({
+    strict: Object.freeze({
+      maxBodySizeBytes: 100 * KB,
+      enablePrototypePollutionProtection: true,
+      maxDepth: 10,
+      maxKeysPerObject: 100,
+      maxArrayLength: 1000,
+      maxStringLength: 10 * KB,
+      maxKeyLength: 128,
+      maxTotalNodes: 10000,
+      timeBudgetMs: 100,
+      enableStreaming: false,
+      lazyMode: false,
+      lazyModeThreshold: Infinity,
+      enableCache: false,
+      enableFastPath: false,
+      duplicateKeyPolicy: "reject",
+      numberMode: "reject",
+      keyPolicyLint: "error",
+      maxEchoLength: 64,
+      omitInputFromResponses: true,
+    }),
+    balanced: Object.freeze({
+      maxBodySizeBytes: 1 * MB,
+      enablePrototypePollutionProtection: true,
+      maxDepth: 20,
+      maxKeysPerObject: 1000,
+      maxArrayLength: 10000,
+      maxStringLength: 100 * KB,
+      maxKeyLength: 256,
+      maxTotalNodes: 100000,
+      timeBudgetMs: 1000,
+      enableStreaming: false,
+      lazyMode: false,
+      lazyModeThreshold: Infinity,
+      enableCache: true,
+      cacheSize: 1000,
+      cacheTTL: 60000,
+      enableFastPath: false,
+      duplicateKeyPolicy: "reject",
+      keyPolicyLint: "warn",
+      maxEchoLength: 256,
+    }),
+    throughput: Object.freeze({
+      maxBodySizeBytes: 10 * MB,
+      enablePrototypePollutionProtection: true,
+      maxDepth: 32,
+      maxKeyLength: 1024,
+      timeBudgetMs: 5000,
+      enableStreaming: true,
+      streamingThreshold: 1 * MB,
+      chunkSize: 64 * KB,
+      lazyMode: false,
+      lazyModeThreshold: 1 * MB,
+      lazyModeSkipPrototype: false,
+      lazyModeSkipWhitelist: true,
+      lazyModeSkipBlacklist: false,
+      enableCache: true,
+      cacheSize: 5000,
+      cacheTTL: 60000,
+      enableFastPath: false,
+      duplicateKeyPolicy: "reject",
+      keyPolicyLint: "warn",
+    }),
+  });
+
+/**
+ * Extends a preset (or any options) with overrides. An override set to
+ * `undefined` removes the preset's value, e.g. `maxBodySizeBytes: undefined`
+ * lifts the body size limit.
+ * @param base - A preset, e.g. `presets.balanced`, or options extended before
+ * @param overrides - Options replacing the base values
+ * @returns Frozen options, validated like any options passed to the library
+ * @throws StrictJsonConfigurationError if the combined options are invalid
+ */
+export function extendPreset(
+  base: Readonly<StrictJsonOptions>,
+  overrides: StrictJsonOptions = {},
+): Readonly<StrictJsonOptions> {
+  const options = Object.freeze({ ...base, ...overrides });
+  resolveStrictJsonOptions(options);
+  return options;
+}
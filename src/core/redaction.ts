@@ -0,0 +1,148 @@
+/**
+ * Redaction of user input echoed in errors (keys, number literals, excerpts)
+ */
+
+import type { StrictJsonError } from "./errors.js";
+import type { StrictJsonErrorDetails, StrictJsonOptions } from "./types.js";
+import { defaultErrorMessage, getErrorTitle } from "./messages.js";
+import { escapePointerSegment, formatKeySegment } from "./path.js";
+import { compileGlob } from "./pattern-matcher.js";
+
+const MASK = "***";
+const ELLIPSIS = "...";
+
+// A key in dot notation, a quoted key or an array index
+const PATH_SEGMENT = /\.([^.[]+)|\[("(?:[^"\\]|\\.)*")\]|\[(\d+)\]/g;
+
+// Quoted strings of an excerpt (keys and string values)
+const QUOTED_STRING = /"((?:[^"\\]|\\.)*)"/g;
+
+// Public properties of the error classes repeating input from the details
+// (e.g., KeyNotAllowedError#key), serialized along with them
+const ECHOED_PROPERTIES = ["key", "dangerousKey", "numberLiteral", "path"] as const;
+
+// Sets the echoed properties of an error to their redacted details, or
+// removes them along with the details
+const syncEchoedProperties = (error: StrictJsonError): void => {
+  const properties = error as unknown as Record<string, unknown>;
+  for (const name of ECHOED_PROPERTIES) {
+    if (!Object.prototype.hasOwnProperty.call(error, name)) continue;
+    if (error.details[name] === undefined) delete properties[name];
+    else properties[name] = error.details[name];
+  }
+};
+
+/**
+ * Rewrites the object keys of a path, keeping array indices
+ * @param path - Path in dot/bracket notation (e.g., '$.data["a.b"][0]')
+ * @param replace - Receives each key and returns its replacement
+ * @returns Path with the replaced keys (re-escaped as needed)
+ */
+export function mapPathKeys(path: string, replace: (key: string) => string): string {
+  if (!path.startsWith("$")) return path;
+  return (
+    "$" +
+    path
+      .slice(1)
+      .replace(PATH_SEGMENT, (segment, plain?: string, quoted?: string) =>
+        plain === undefined && quoted === undefined
+          ? segment
+          : formatKeySegment(replace(plain ?? (JSON.parse(quoted as string) as string))),
+      )
+  );
+}
+
+const mapPointerSegments = (pointer: string, replace: (segment: string) => string): string =>
+  pointer
+    .split("/")
+    .map((segment, i) =>
+      i === 0 ? segment : escapePointerSegment(replace(segment.replace(/~1/g, "/").replace(/~0/g, "~"))),
+    )
+    .join("/");
+
+const truncate = (text: string, maxLength: number): string => {
+  const chars = [...text];
+  return chars.length > maxLength ? chars.slice(0, maxLength).join("") + ELLIPSIS : text;
+};
+
+/**
+ * Checks if the options redact echoed input.
+ */
+export function hasRedaction(options?: StrictJsonOptions): boolean {
+  return options?.maxEchoLength !== undefined || (options?.sensitiveKeys?.length ?? 0) > 0;
+}
+
+/**
+ * Creates the redaction applied to errors as they are raised.
+ * Keys matching `sensitiveKeys` (case-insensitive glob patterns on the key
+ * name) are masked in `key`, `path` and `pointer`, and an excerpt quoting
+ * one of them is dropped. Keys and number literals longer than
+ * `maxEchoLength` characters are truncated. The message and the public
+ * properties repeating input (e.g., `key` and `path`) are rebuilt from the
+ * redacted details.
+ * @returns Function redacting an error in place
+ */
+export function createErrorRedactor(options: StrictJsonOptions): (error: StrictJsonError) => void {
+  const sensitive = (options.sensitiveKeys ?? []).map((pattern) =>
+    compileGlob(pattern.toLowerCase()),
+  );
+  const maxLength = options.maxEchoLength ?? Infinity;
+  const isSensitive = (key: string) => sensitive.some((matches) => matches(key.toLowerCase()));
+  const redactKey = (key: string) => (isSensitive(key) ? MASK : truncate(key, maxLength));
+
+  const redact = (details: StrictJsonErrorDetails): void => {
+    if (details.key !== undefined) details.key = redactKey(details.key);
+    if (details.dangerousKey !== undefined) {
+      details.dangerousKey = truncate(details.dangerousKey, maxLength);
+    }
+    if (details.numberLiteral !== undefined) {
+      details.numberLiteral = truncate(details.numberLiteral, maxLength);
+    }
+    if (details.path !== undefined) details.path = mapPathKeys(details.path, redactKey);
+    if (details.pointer !== undefined) details.pointer = mapPointerSegments(details.pointer, redactKey);
+    if (details.explanation !== undefined) {
+      details.explanation = {
+        ...details.explanation,
+        path: mapPathKeys(details.explanation.path, redactKey),
+      };
+    }
+    if (
+      details.excerpt !== undefined &&
+      sensitive.length > 0 &&
+      [...details.excerpt.matchAll(QUOTED_STRING)].some(([, text]) => isSensitive(text))
+    ) {
+      delete details.excerpt;
+    }
+    details.message = defaultErrorMessage(details);
+  };
+
+  return (error) => {
+    redact(error.details);
+    error.message = error.details.message;
+    syncEchoedProperties(error);
+  };
+}
+
+/**
+ * Removes user input (keys, paths, number literals, excerpts) from an error
+ * before it is sent to a client. The message becomes the title of the code.
+ * The adapters strip a copy of the error, so handlers keep the input.
+ * @param locale - Language tag of the title (default: "en", see getErrorTitle)
+ */
+export function omitUserInput(error: StrictJsonError, locale?: string): void {
+  const strip = (details: StrictJsonErrorDetails): void => {
+    delete details.key;
+    delete details.dangerousKey;
+    delete details.numberLiteral;
+    delete details.path;
+    delete details.pointer;
+    delete details.excerpt;
+    delete details.rule;
+    delete details.explanation;
+    details.message = getErrorTitle(details.code, locale);
+  };
+  strip(error.details);
+  error.details.violations?.forEach(strip);
+  error.message = error.details.message;
+  syncEchoedProperties(error);
+}
@@ -1,302 +1,253 @@
 import { Transform, TransformCallback } from 'stream';
-import type { StrictJsonOptions } from './types.js';
-import { isKeyAllowed } from './utils.js';
+import type { StrictJsonEvent, StrictJsonEventType, StrictJsonOptions } from './types.js';
+import {
+  BodyTooLargeError,
+  ParseTimeoutError,
+  StrictJsonError,
+  type DuplicateKeyError,
+} from './errors.js';
+import { invokeErrorHandlerAsync, reportErrorAsync } from './handlers.js';
+import {
+  deriveResolvedOptions,
+  resolveStrictJsonOptions,
+  type ResolvedStrictJsonOptions,
+} from './options.js';
+import { StrictJsonTokenizer } from './tokenizer.js';
+import { createPathMatcher } from './utils.js';
+
+export interface StreamingJsonParserOptions {
+  emitEvents?: boolean;   // Emit startObject, endObject, startArray, endArray, key and value events
+  materialize?: boolean;  // Build and push the parsed value (default: true)
+  itemPath?: string;      // Push every value matching this path instead (e.g., "$.records[*]")
+}
 
-interface ParserState {
-  inString: boolean;
-  escapeNext: boolean;
-  inObject: boolean;
-  inArray: boolean;
-  objectDepth: number;
-  arrayDepth: number;
-  currentKey: string;
-  keysInCurrentObject: Set<string>;
-  pathStack: string[];
-  buffer: string;
-  completed: boolean;
-  error: Error | null;
+/**
+ * Value extracted by a StreamingJsonParser with `itemPath`.
+ */
+export interface StrictJsonItem {
+  path: string;
+  value: unknown;
 }
 
-const INITIAL_STATE: ParserState = {
-  inString: false,
-  escapeNext: false,
-  inObject: false,
-  inArray: false,
-  objectDepth: 0,
-  arrayDepth: 0,
-  currentKey: '',
-  keysInCurrentObject: new Set(),
-  pathStack: ['$'],
-  buffer: '',
-  completed: false,
-  error: null,
-};
+// Tokenizer that validates every value matching itemPath as an independent
+// document. Outside the items, the document is checked with the same
+// limits and protections (the item values count as values of the document);
+// the key policy and number mode are relative to the items and only apply
+// to them. The time budget and signal cover the whole document.
+const createItemTokenizer = (
+  itemPath: string,
+  options: ResolvedStrictJsonOptions,
+  onItem: (value: unknown, path: string) => void,
+  onEvent?: (type: StrictJsonEventType, event: StrictJsonEvent) => void,
+): StrictJsonTokenizer =>
+  new StrictJsonTokenizer(
+    deriveResolvedOptions(options, {
+      whitelist: undefined,
+      blacklist: undefined,
+      numberMode: 'native',
+      numberModePaths: undefined,
+    }),
+    {
+      onEvent,
+      materialize: false,
+      items: { match: createPathMatcher([itemPath]), options, onItem },
+    },
+  );
 
 /**
- * Streaming JSON parser that detects duplicate keys incrementally.
- * Processes data in chunks without storing the entire JSON in memory.
+ * Streaming JSON parser that validates the document as chunks arrive.
+ * Duplicate keys, dangerous keys, depth, structural limits and key policy
+ * are enforced incrementally, and the fully built value is pushed once the
+ * input ends (a `null` document is only available through `result`).
+ *
+ * With `emitEvents`, every accepted token is also emitted as an event
+ * carrying its path and byte offset (see StrictJsonEvent); combined with
+ * `materialize: false` the document is validated without building a tree.
+ *
+ * With `itemPath`, each matching value is validated as an independent
+ * document (paths, depth and key policy are relative to the item) and pushed
+ * as a StrictJsonItem, while the rest of the document is checked against
+ * the same limits and protections without being built.
+ *
+ * `timeBudgetMs` and `signal` stop the stream with a ParseTimeoutError.
  */
 export class StreamingJsonParser extends Transform {
-  private state: ParserState;
-  private options?: StrictJsonOptions;
-  private readonly maxDepth: number;
-  private readonly dangerousKeys: string[];
-  private readonly enablePrototypeProtection: boolean;
-  private readonly whitelist?: string[];
-  private readonly blacklist?: string[];
-
-  constructor(options?: StrictJsonOptions) {
-    super({ decodeStrings: false, encoding: 'utf8' });
-    this.state = { ...INITIAL_STATE };
-    this.options = options;
-    this.maxDepth = options?.maxDepth ?? 20;
-    this.dangerousKeys = options?.dangerousKeys || ['__proto__', 'constructor', 'prototype'];
-    this.enablePrototypeProtection = options?.enablePrototypePollutionProtection !== false;
-    this.whitelist = options?.whitelist;
-    this.blacklist = options?.blacklist;
-  }
-
-  _transform(chunk: Buffer, encoding: BufferEncoding, callback: TransformCallback): void {
-    if (this.state.completed || this.state.error) {
-      callback();
-      return;
-    }
-
-    try {
-      this.state.buffer += chunk.toString('utf8');
-      this.processBuffer();
-      callback();
-    } catch (error) {
-      this.state.error = error as Error;
-      this.emit('error', error);
-      callback(error);
+  private readonly tokenizer: StrictJsonTokenizer;
+  private readonly maxBodySizeBytes?: number;
+  private readonly materialize: boolean;
+  private received = 0;
+  private parsed: unknown = undefined;
+
+  /**
+   * @throws StrictJsonConfigurationError if the options are invalid
+   */
+  constructor(rawOptions?: StrictJsonOptions, streamOptions?: StreamingJsonParserOptions) {
+    super({ readableObjectMode: true });
+    const options = resolveStrictJsonOptions(rawOptions);
+    const itemPath = streamOptions?.itemPath;
+    const onEvent = streamOptions?.emitEvents
+      ? (type: StrictJsonEventType, event: StrictJsonEvent) => this.emit(type, event)
+      : undefined;
+
+    this.materialize = itemPath === undefined && streamOptions?.materialize !== false;
+    this.tokenizer =
+      itemPath === undefined
+        ? new StrictJsonTokenizer(options, { onEvent, materialize: this.materialize })
+        : createItemTokenizer(itemPath, options, (value, path) => this.push({ path, value }), onEvent);
+    this.maxBodySizeBytes = options?.maxBodySizeBytes;
+
+    // The tokenizer checks the signal as it scans; between chunks the
+    // stream is stopped as soon as the signal is aborted
+    const signal = options?.signal;
+    if (signal && !signal.aborted) {
+      const onAbort = () => this.destroy(new ParseTimeoutError());
+      signal.addEventListener('abort', onAbort, { once: true });
+      this.once('close', () => signal.removeEventListener('abort', onAbort));
     }
   }
 
-  _flush(callback: TransformCallback): void {
-    if (this.state.error) {
-      callback(this.state.error);
-      return;
-    }
-
-    if (!this.state.completed) {
-      const error = new Error('Incomplete JSON');
-      this.state.error = error;
-      this.emit('error', error);
-      callback(error);
-      return;
-    }
-
-    callback();
+  /**
+   * The parsed document, once the stream has finished.
+   */
+  get result(): unknown {
+    return this.parsed;
   }
 
-  private processBuffer(): void {
-    const { buffer } = this.state;
-    let i = 0;
-
-    while (i < buffer.length && !this.state.completed) {
-      const char = buffer[i];
-
-      if (this.state.inString) {
-        if (this.state.escapeNext) {
-          this.state.escapeNext = false;
-          i++;
-          continue;
-        }
-
-        if (char === '\\') {
-          this.state.escapeNext = true;
-          i++;
-          continue;
-        }
-
-        if (char === '"') {
-          this.state.inString = false;
-        }
-      } else {
-        switch (char) {
-          case '"':
-            this.state.inString = true;
-            this.processStringStart(buffer, i);
-            break;
-
-          case '{':
-            this.state.objectDepth++;
-            this.state.inObject = true;
-            this.state.keysInCurrentObject = new Set();
-            break;
-
-          case '}':
-            if (this.state.objectDepth > 0) {
-              this.state.objectDepth--;
-              this.state.keysInCurrentObject.clear();
-              if (this.state.pathStack.length > 1) {
-                this.state.pathStack.pop();
-              }
-            }
-            // Check if we've returned to root level
-            if (this.state.objectDepth === 0 && this.state.arrayDepth === 0) {
-              this.state.completed = true;
-            }
-            break;
-
-          case '[':
-            this.state.arrayDepth++;
-            this.state.inArray = true;
-            break;
-
-          case ']':
-            if (this.state.arrayDepth > 0) {
-              this.state.arrayDepth--;
-              // Check if we've returned to root level
-              if (this.state.objectDepth === 0 && this.state.arrayDepth === 0) {
-                this.state.completed = true;
-              }
-            }
-            break;
-
-          case ':':
-            this.processColon();
-            break;
-        }
-      }
-
-      i++;
-    }
-
-    // Keep only the last incomplete chunk for next iteration
-    // This helps with memory efficiency
-    if (!this.state.completed) {
-      const lastBraceIndex = Math.max(
-        buffer.lastIndexOf('{'),
-        buffer.lastIndexOf('['),
-        buffer.lastIndexOf(':'),
-      );
-      if (lastBraceIndex >= 0 && i > lastBraceIndex) {
-        this.state.buffer = buffer.slice(Math.max(0, lastBraceIndex));
-      } else {
-        this.state.buffer = '';
-      }
-    } else {
-      this.state.buffer = '';
-    }
+  /**
+   * Duplicate keys that were tolerated by the duplicate key policy.
+   */
+  get warnings(): readonly DuplicateKeyError[] {
+    return this.tokenizer.warnings;
   }
 
-  private processStringStart(buffer: string, pos: number): void {
-    if (!this.state.inObject || this.state.currentKey !== '') {
-      return;
-    }
-
-    // Find the end of this string
-    let endPos = pos + 1;
-    let escapeNext = false;
-
-    while (endPos < buffer.length) {
-      const char = buffer[endPos];
-      
-      if (escapeNext) {
-        escapeNext = false;
-        endPos++;
-        continue;
-      }
-
-      if (char === '\\') {
-        escapeNext = true;
-        endPos++;
-        continue;
-      }
-
-      if (char === '"') {
-        break;
+  _transform(chunk: Buffer, encoding: BufferEncoding, callback: TransformCallback): void {
+    try {
+      this.received += chunk.length;
+      if (typeof this.maxBodySizeBytes === 'number' && this.received > this.maxBodySizeBytes) {
+        throw new BodyTooLargeError(this.maxBodySizeBytes);
       }
-
-      endPos++;
-    }
-
-    if (endPos < buffer.length) {
-      const keyValue = buffer.slice(pos + 1, endPos);
-      this.state.currentKey = keyValue;
-      this.validateKey(keyValue);
-    }
-  }
-
-  private processColon(): void {
-    if (!this.state.inObject || this.state.currentKey === '') {
-      return;
-    }
-
-    // Check for duplicate key
-    if (this.state.keysInCurrentObject.has(this.state.currentKey)) {
-      const path = this.getCurrentPath();
-      throw new Error(`Duplicate key '${this.state.currentKey}' at ${path}`);
-    }
-
-    this.state.keysInCurrentObject.add(this.state.currentKey);
-    this.state.pathStack.push(this.state.currentKey);
-    this.state.currentKey = '';
-
-    // Check depth limit
-    if (this.state.objectDepth + this.state.arrayDepth > this.maxDepth) {
-      throw new Error(`Depth limit exceeded: ${this.state.objectDepth + this.state.arrayDepth}`);
+      this.tokenizer.write(chunk);
+      callback();
+    } catch (error) {
+      callback(error as Error);
     }
   }
 
-  private getCurrentPath(): string {
-    return this.state.pathStack.join('.');
-  }
-
-  private validateKey(key: string): void {
-    const path = this.getCurrentPath();
-    const keyPath = `${path}.${key}`;
-
-    // Check whitelist/blacklist
-    if (this.whitelist !== undefined || this.blacklist !== undefined) {
-      if (!isKeyAllowed(keyPath, this.whitelist, this.blacklist)) {
-        throw new Error(`Key '${key}' at ${keyPath} is not allowed`);
+  _flush(callback: TransformCallback): void {
+    try {
+      this.parsed = this.tokenizer.finish();
+      // Object mode streams cannot carry null, it would end the stream
+      if (this.materialize && this.parsed !== null) {
+        this.push(this.parsed);
       }
-    }
-
-    // Check prototype pollution
-    if (this.enablePrototypeProtection && this.dangerousKeys.includes(key)) {
-      throw new Error(`Prototype pollution detected: dangerous key '${key}' at ${keyPath}`);
+      callback();
+    } catch (error) {
+      callback(error as Error);
     }
   }
 }
 
 /**
  * Parse JSON from a stream with duplicate key detection.
+ * Errors are reported to the same handlers as parseStrictJsonAsync.
  * @param stream Readable stream containing JSON data
- * @param options Parser options
+ * @param rawOptions Parser options
  * @returns Promise that resolves with parsed JSON object
+ * @throws StrictJsonConfigurationError if the options are invalid
  */
 export async function parseJsonStream(
   stream: NodeJS.ReadableStream,
-  options?: StrictJsonOptions,
+  rawOptions?: StrictJsonOptions,
 ): Promise<unknown> {
-  return new Promise((resolve, reject) => {
-    const parser = new StreamingJsonParser(options);
-    const chunks: Buffer[] = [];
-
-    parser.on('data', (chunk) => {
-      chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  const options = resolveStrictJsonOptions(rawOptions);
+  const parser = new StreamingJsonParser(options);
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      parser.on('finish', resolve);
+      parser.on('error', reject);
+      stream.on('error', reject);
+      // The result is read from the parser, the pushed copy is not needed
+      parser.resume();
+
+      stream.pipe(parser);
     });
+  } catch (error) {
+    // Errors of the source stream (e.g., a reset connection) are not reported
+    if (error instanceof StrictJsonError) {
+      await reportErrorAsync(error, options);
+    }
+    throw error;
+  }
 
-    parser.on('end', () => {
+  // Report duplicates tolerated by the duplicate key policy
+  for (const warning of parser.warnings) {
+    await invokeErrorHandlerAsync(options?.onDuplicateKeyWarning, warning);
+  }
+
+  return parser.result;
+}
+
+/**
+ * Stream the values matching a path out of a JSON document.
+ * Each item is validated as an independent document while the rest of
+ * the document is checked without being built, so huge arrays are never
+ * held in memory.
+ * @param stream Readable stream containing JSON data
+ * @param itemPath Path of the values to extract (e.g., "$.records[*]")
+ * @param rawOptions Parser options, applied to every item; errors are reported
+ * to the same handlers as parseStrictJsonAsync
+ * @returns Async iterator over the extracted values
+ * @throws StrictJsonConfigurationError on the first iteration if the options are invalid
+ */
+export async function* streamJsonItems(
+  stream: AsyncIterable<Buffer | string>,
+  itemPath: string,
+  rawOptions?: StrictJsonOptions,
+): AsyncGenerator<unknown, void, undefined> {
+  const options = resolveStrictJsonOptions(rawOptions);
+  const items: unknown[] = [];
+  const tokenizer = createItemTokenizer(itemPath, options, (value) => items.push(value));
+  const maxBodySizeBytes = options?.maxBodySizeBytes;
+  let received = 0;
+
+  // Items completed before a violation are yielded before it is thrown
+  const drain = function* (): Generator<unknown> {
+    while (items.length > 0) yield items.shift();
+  };
+
+  try {
+    for await (const chunk of stream) {
+      const buf = typeof chunk === 'string' ? Buffer.from(chunk, 'utf8') : chunk;
+      received += buf.length;
+      if (typeof maxBodySizeBytes === 'number' && received > maxBodySizeBytes) {
+        throw new BodyTooLargeError(maxBodySizeBytes);
+      }
       try {
-        // Combine all chunks and parse
-        const buffer = Buffer.concat(chunks);
-        const jsonStr = buffer.toString('utf8');
-        const parsed = JSON.parse(jsonStr);
-        resolve(parsed);
+        tokenizer.write(buf);
       } catch (error) {
-        reject(error);
+        yield* drain();
+        throw error;
       }
-    });
+      yield* drain();
+    }
 
-    parser.on('error', reject);
+    try {
+      tokenizer.finish();
+    } finally {
+      yield* drain();
+    }
+  } catch (error) {
+    if (error instanceof StrictJsonError) {
+      await reportErrorAsync(error, options);
+    }
+    throw error;
+  }
 
-    stream.pipe(parser);
-  });
+  // Report duplicates tolerated by the duplicate key policy
+  for (const warning of tokenizer.warnings) {
+    await invokeErrorHandlerAsync(options?.onDuplicateKeyWarning, warning);
+  }
 }
 
 /**
@@ -0,0 +1,1087 @@
+import {
+  ArrayLengthLimitError,
+  DepthLimitError,
+  DuplicateKeyError,
+  InvalidJsonError,
+  KeyLengthLimitError,
+  KeyNotAllowedError,
+  KeysPerObjectLimitError,
+  ParseTimeoutError,
+  PrototypePollutionError,
+  StringLengthLimitError,
+  TotalNodesLimitError,
+  UnsafeNumberError,
+  type StrictJsonError,
+} from "./errors.js";
+import type {
+  DuplicateKeyPolicy,
+  NumberMode,
+  StrictJsonEvent,
+  StrictJsonEventType,
+  StrictJsonOptions,
+  StrictJsonSyntaxErrorKind,
+} from "./types.js";
+import {
+  getCompiledKeyPolicy,
+  getPathMatcher,
+  toKeyPolicyViolation,
+  type CompiledKeyPolicy,
+  type KeyPolicyViolation,
+} from "./pattern-matcher.js";
+import { appendKeyToPath, escapePointerSegment } from "./path.js";
+import { isLosslessNumber, toExactBigInt } from "./numbers.js";
+import { defaultErrorMessage } from "./messages.js";
+import { createExcerpt } from "./excerpt.js";
+import { createErrorRedactor, hasRedaction } from "./redaction.js";
+
+/**
+ * Single-pass strict JSON tokenizer.
+ *
+ * Scans the raw request bytes once and materializes the result while
+ * enforcing duplicate keys, dangerous keys, depth, structural limits and
+ * key policy in the same pass, so no intermediate AST is built and JSON.parse is not needed.
+ *
+ * The scanner is a resumable state machine: input can also be fed in chunks,
+ * and a token split across chunks is read again once the rest of it arrives.
+ */
+
+const CHAR_TAB = 0x09;
+const CHAR_LF = 0x0a;
+const CHAR_CR = 0x0d;
+const CHAR_SPACE = 0x20;
+const CHAR_QUOTE = 0x22;
+const CHAR_PLUS = 0x2b;
+const CHAR_COMMA = 0x2c;
+const CHAR_MINUS = 0x2d;
+const CHAR_DOT = 0x2e;
+const CHAR_SLASH = 0x2f;
+const CHAR_0 = 0x30;
+const CHAR_1 = 0x31;
+const CHAR_9 = 0x39;
+const CHAR_COLON = 0x3a;
+const CHAR_UPPER_E = 0x45;
+const CHAR_OPEN_BRACKET = 0x5b;
+const CHAR_BACKSLASH = 0x5c;
+const CHAR_CLOSE_BRACKET = 0x5d;
+const CHAR_LOWER_B = 0x62;
+const CHAR_LOWER_E = 0x65;
+const CHAR_LOWER_F = 0x66;
+const CHAR_LOWER_N = 0x6e;
+const CHAR_LOWER_R = 0x72;
+const CHAR_LOWER_T = 0x74;
+const CHAR_LOWER_U = 0x75;
+const CHAR_OPEN_BRACE = 0x7b;
+const CHAR_CLOSE_BRACE = 0x7d;
+
+const LITERAL_TRUE = Buffer.from("true");
+const LITERAL_FALSE = Buffer.from("false");
+const LITERAL_NULL = Buffer.from("null");
+
+export const DEFAULT_DANGEROUS_KEYS = ["__proto__", "constructor", "prototype"];
+const DEFAULT_MAX_VIOLATIONS = 100;
+// Number of values scanned between two checks of the time budget and signal
+const BUDGET_CHECK_INTERVAL = 1024;
+
+// What the scanner expects next: "object" and "array" follow an opening
+// bracket, "next" follows a value inside a container, "item" hands bytes to
+// the tokenizer of an extracted item, "end" follows the root value and
+// "done" is reached at the end of the input.
+type ScanState =
+  | "value"
+  | "object"
+  | "array"
+  | "key"
+  | "colon"
+  | "next"
+  | "item"
+  | "end"
+  | "done";
+
+// Thrown by token readers that reach the end of a chunk mid-token
+const SUSPENDED = Symbol("suspended");
+
+export interface StrictJsonTokenizerConfig {
+  // Receives structural events as tokens are accepted
+  onEvent?: (type: StrictJsonEventType, event: StrictJsonEvent) => void;
+  // Build the parsed value (default: true); events alone need no tree
+  materialize?: boolean;
+  // Values at matching paths are handed to a tokenizer of their own and
+  // validated with `options` as independent documents
+  items?: {
+    match: (path: string) => boolean;
+    options?: StrictJsonOptions;
+    onItem: (value: unknown, path: string) => void;
+  };
+  // Stop after the root value and leave the bytes after it unread
+  fragment?: boolean;
+  // Location of the first byte when the input is part of a larger stream
+  origin?: { offset: number; line: number; column: number };
+}
+
+// How the value of the current property is stored in its object:
+// "set" assigns it, "skip" drops it (first-wins), "append" adds it to the
+// array of repeated values (collect).
+type AssignMode = "set" | "skip" | "append";
+
+interface ContainerFrame {
+  container: Record<string, unknown> | unknown[];
+  isArray: boolean;
+  parent: ContainerFrame | null;
+  // Key or index of this container in its parent (null for the root)
+  segment: string | number | null;
+  path: string;
+  // State of the key policy automaton at this container (pattern syntax)
+  policyState: number;
+  depth: number;
+  seenKeys: Set<string> | null;
+  collectedKeys: Set<string> | null;
+  key: string;
+  assignMode: AssignMode;
+  // Offset of the current key while the key policy waits for its value:
+  // a key allowed only as a container leading to whitelisted keys (-1 when none)
+  containerKeyOffset: number;
+  // Index of the current item in an array, or number of keys read in an object
+  index: number;
+}
+
+const isDigit = (c: number): boolean => c >= CHAR_0 && c <= CHAR_9;
+
+const isNumberByte = (c: number): boolean =>
+  isDigit(c) ||
+  c === CHAR_MINUS ||
+  c === CHAR_PLUS ||
+  c === CHAR_DOT ||
+  c === CHAR_LOWER_E ||
+  c === CHAR_UPPER_E;
+
+const hexValue = (c: number): number => {
+  if (c >= 0x30 && c <= 0x39) return c - 0x30;
+  if (c >= 0x41 && c <= 0x46) return c - 0x37;
+  if (c >= 0x61 && c <= 0x66) return c - 0x57;
+  return -1;
+};
+
+// Assigns like JSON.parse would: "__proto__" becomes an own data property
+// instead of replacing the prototype of the materialized object.
+const assignProperty = (
+  target: Record<string, unknown>,
+  key: string,
+  value: unknown,
+): void => {
+  if (key === "__proto__") {
+    Object.defineProperty(target, key, {
+      value,
+      writable: true,
+      enumerable: true,
+      configurable: true,
+    });
+    return;
+  }
+  target[key] = value;
+};
+
+export class StrictJsonTokenizer {
+  private readonly depthLimit: number;
+  private readonly dangerousKeys: Set<string> | null;
+  // Compiled once per whitelist/blacklist arrays; null when not enforced
+  private readonly keyPolicy: CompiledKeyPolicy | null;
+  private readonly explainKeyDecisions: boolean;
+  private readonly collectAllViolations: boolean;
+  private readonly maxViolations: number;
+  private readonly duplicateKeyPolicy: DuplicateKeyPolicy;
+  private readonly isDuplicateKeyAllowed?: (path: string) => boolean;
+  private readonly numberMode: NumberMode;
+  private readonly isNumberModePath?: (path: string) => boolean;
+  private readonly maxKeysPerObject: number;
+  private readonly maxArrayLength: number;
+  private readonly maxStringLength: number;
+  private readonly maxKeyLength: number;
+  private readonly maxTotalNodes: number;
+  private readonly timeBudgetMs: number;
+  private readonly signal?: AbortSignal;
+  private readonly includeExcerpt: boolean;
+  private readonly excerptRadius?: number;
+  private readonly redact: ((error: StrictJsonError) => void) | null;
+  private readonly onEvent?: StrictJsonTokenizerConfig["onEvent"];
+  private readonly materialize: boolean;
+  private readonly items?: StrictJsonTokenizerConfig["items"];
+  private readonly fragment: boolean;
+  private readonly origin: { offset: number; line: number; column: number };
+
+  private buf: Buffer = Buffer.alloc(0);
+  private pos = 0;
+  private end = 0;
+  // Absolute offset of buf[0]; consumed chunks are dropped when parsing incrementally
+  private base = 0;
+  // False while more chunks may follow the buffered input
+  private final = true;
+  private state: ScanState = "value";
+  private tokenStart = 0;
+  private result: unknown = undefined;
+  private stack: ContainerFrame[] = [];
+  private violations: StrictJsonError[] = [];
+  private tolerated: DuplicateKeyError[] = [];
+  private nodeCount = 0;
+  // Set when the first byte is scanned (0 until then)
+  private deadline = 0;
+  // Absolute offset of the last value counted against the limits, so a value
+  // read again after a suspension is not counted twice
+  private checkedValueAt = -1;
+  private item: StrictJsonTokenizer | null = null;
+  private itemPath = "$";
+  // Line tracking for error locations, advanced incrementally since
+  // violations are reported in source order
+  private lineCursor = { offset: 0, line: 1, column: 1 };
+
+  public constructor(options?: StrictJsonOptions, config?: StrictJsonTokenizerConfig) {
+    // Lazy mode configuration
+    const lazyMode = options?.lazyMode === true;
+    const lazyModeDepthLimit = options?.lazyModeDepthLimit ?? 10;
+    const lazyModeSkipPrototype = options?.lazyModeSkipPrototype ?? true;
+    const lazyModeSkipWhitelist = options?.lazyModeSkipWhitelist ?? true;
+    const lazyModeSkipBlacklist = options?.lazyModeSkipBlacklist ?? false;
+
+    const maxDepth = options?.maxDepth ?? 20;
+    this.depthLimit = lazyMode ? Math.min(maxDepth, lazyModeDepthLimit) : maxDepth;
+
+    const shouldCheckPrototype =
+      options?.enablePrototypePollutionProtection !== false &&
+      !(lazyMode && lazyModeSkipPrototype);
+    this.dangerousKeys = shouldCheckPrototype
+      ? new Set(options?.dangerousKeys || DEFAULT_DANGEROUS_KEYS)
+      : null;
+
+    const hasWhitelistOrBlacklist =
+      options?.whitelist !== undefined || options?.blacklist !== undefined;
+    const shouldCheckWhitelist =
+      hasWhitelistOrBlacklist && !(lazyMode && lazyModeSkipWhitelist);
+    const shouldCheckBlacklist =
+      hasWhitelistOrBlacklist && !(lazyMode && lazyModeSkipBlacklist);
+    this.keyPolicy =
+      shouldCheckWhitelist || shouldCheckBlacklist
+        ? getCompiledKeyPolicy(options?.whitelist, options?.blacklist, options?.keyPolicySyntax)
+        : null;
+    this.explainKeyDecisions = options?.explainKeyDecisions === true;
+
+    this.collectAllViolations = options?.collectAllViolations === true;
+    this.maxViolations = Math.max(1, options?.maxViolations ?? DEFAULT_MAX_VIOLATIONS);
+
+    this.duplicateKeyPolicy = options?.duplicateKeyPolicy ?? "reject";
+    this.isDuplicateKeyAllowed =
+      options?.duplicateKeyAllowList && getPathMatcher(options.duplicateKeyAllowList);
+
+    this.numberMode = options?.numberMode ?? "native";
+    this.isNumberModePath = options?.numberModePaths && getPathMatcher(options.numberModePaths);
+
+    this.maxKeysPerObject = options?.maxKeysPerObject ?? Infinity;
+    this.maxArrayLength = options?.maxArrayLength ?? Infinity;
+    this.maxStringLength = options?.maxStringLength ?? Infinity;
+    this.maxKeyLength = options?.maxKeyLength ?? Infinity;
+    this.maxTotalNodes = options?.maxTotalNodes ?? Infinity;
+    this.timeBudgetMs = options?.timeBudgetMs ?? Infinity;
+    this.signal = options?.signal;
+    this.includeExcerpt = options?.includeExcerpt === true;
+    // An excerpt echoes at most maxEchoLength characters around the token
+    this.excerptRadius =
+      options?.maxEchoLength === undefined ? undefined : Math.floor(options.maxEchoLength / 2);
+    this.redact = options && hasRedaction(options) ? createErrorRedactor(options) : null;
+
+    this.onEvent = config?.onEvent;
+    this.materialize = config?.materialize !== false;
+    this.items = config?.items;
+    this.fragment = config?.fragment === true;
+    this.origin = config?.origin ?? { offset: 0, line: 1, column: 1 };
+    this.base = this.origin.offset;
+    this.lineCursor = { ...this.origin };
+  }
+
+  /**
+   * Duplicate keys that were tolerated by the duplicate key policy during
+   * the last parse, to be reported through `onDuplicateKeyWarning`.
+   */
+  public get warnings(): readonly DuplicateKeyError[] {
+    return this.tolerated;
+  }
+
+  /**
+   * True once the root value of a fragment has been read.
+   */
+  public get complete(): boolean {
+    return this.state === "done";
+  }
+
+  /**
+   * Number of buffered bytes that follow a complete fragment.
+   */
+  public get unread(): number {
+    return this.end - this.pos;
+  }
+
+  /**
+   * Parses a complete JSON document.
+   * When collecting violations, the first one is thrown with every
+   * violation listed in `details.violations`.
+   * @throws DuplicateKeyError, PrototypePollutionError, DepthLimitError,
+   * a structural limit error, ParseTimeoutError or InvalidJsonError
+   */
+  public parse(buf: Buffer): unknown {
+    this.reset();
+    this.buf = buf;
+    this.end = buf.length;
+    return this.finish();
+  }
+
+  /**
+   * Feeds the next chunk of a document parsed incrementally.
+   * Violations are thrown as soon as the offending bytes arrive.
+   * @throws the same errors as parse()
+   */
+  public write(chunk: Buffer): void {
+    this.final = false;
+    // Keep only the unconsumed tail: whitespace or a token split across chunks
+    if (this.pos > 0) {
+      this.lineAndColumn(this.pos);
+      this.base += this.pos;
+      this.buf = this.buf.subarray(this.pos);
+      this.pos = 0;
+    }
+    this.buf = this.buf.length === 0 ? chunk : Buffer.concat([this.buf, chunk]);
+    this.end = this.buf.length;
+
+    try {
+      this.checkBudget();
+      this.scan();
+    } catch (error) {
+      this.release();
+      throw error;
+    }
+  }
+
+  /**
+   * Completes a document parsed incrementally with write().
+   * @returns The parsed document
+   * @throws the same errors as parse()
+   */
+  public finish(): unknown {
+    this.final = true;
+    try {
+      this.checkBudget();
+      this.scan();
+      if (this.violations.length > 0) {
+        throw this.collectedViolations();
+      }
+      return this.result;
+    } finally {
+      this.release();
+    }
+  }
+
+  private reset(): void {
+    this.buf = Buffer.alloc(0);
+    this.pos = 0;
+    this.end = 0;
+    this.final = true;
+    this.state = "value";
+    this.result = undefined;
+    this.stack = [];
+    this.violations = [];
+    this.tolerated = [];
+    this.nodeCount = 0;
+    this.deadline = 0;
+    this.checkedValueAt = -1;
+    this.item = null;
+    this.base = this.origin.offset;
+    this.lineCursor = { ...this.origin };
+  }
+
+  private release(): void {
+    this.buf = Buffer.alloc(0);
+    this.pos = 0;
+    this.end = 0;
+    this.result = undefined;
+    this.stack = [];
+    this.violations = [];
+    this.item = null;
+  }
+
+  // Runs the state machine until the input is exhausted
+  private scan(): void {
+    const stack = this.stack;
+    try {
+      while (this.state !== "done") {
+        // Bytes of an extracted item belong to its tokenizer, whitespace included
+        if (this.state === "item") {
+          if (!this.feedItem()) return;
+          continue;
+        }
+
+        this.skipWhitespace();
+        // Wait for the next chunk
+        if (this.pos >= this.end && !this.final) return;
+        this.tokenStart = this.pos;
+
+        switch (this.state) {
+          case "value":
+            this.readValue();
+            break;
+          case "object":
+            if (this.buf[this.pos] === CHAR_CLOSE_BRACE) {
+              this.closeContainer();
+            } else {
+              this.state = "key";
+            }
+            break;
+          case "array":
+            if (this.buf[this.pos] === CHAR_CLOSE_BRACKET) {
+              this.closeContainer();
+            } else {
+              this.state = "value";
+            }
+            break;
+          case "key":
+            this.readPropertyKey(stack[stack.length - 1]);
+            break;
+          case "colon":
+            if (this.buf[this.pos] !== CHAR_COLON) this.expected("ColonExpected");
+            this.pos++;
+            this.state = "value";
+            break;
+          case "next": {
+            const frame = stack[stack.length - 1];
+            const next = this.buf[this.pos];
+            if (next === CHAR_COMMA) {
+              this.pos++;
+              if (frame.isArray) {
+                frame.index++;
+                this.state = "value";
+              } else {
+                this.state = "key";
+              }
+            } else if (next === (frame.isArray ? CHAR_CLOSE_BRACKET : CHAR_CLOSE_BRACE)) {
+              this.closeContainer();
+            } else {
+              this.expected("CommaExpected");
+            }
+            break;
+          }
+          case "end":
+            if (this.pos !== this.end) this.fail("EndOfInputExpected");
+            this.state = "done";
+            break;
+        }
+      }
+    } catch (error) {
+      if (error !== SUSPENDED) throw error;
+      this.pos = this.tokenStart;
+    }
+  }
+
+  private readValue(): void {
+    const stack = this.stack;
+    const start = this.pos;
+
+    if (this.base + start !== this.checkedValueAt) {
+      this.checkedValueAt = this.base + start;
+      // Values nested deeper sit inside a subtree that was already reported
+      const depth = stack.length;
+      if (depth === this.depthLimit + 1) {
+        const parent = stack[depth - 1];
+        const error = new DepthLimitError(depth, this.depthLimit);
+        error.details.path = parent ? this.childPath(parent) : "$";
+        this.reportAtValue(error);
+      }
+      // Each limit is reported once, by the first value that exceeds it
+      this.nodeCount++;
+      if (this.nodeCount === this.maxTotalNodes + 1) {
+        this.reportAtValue(new TotalNodesLimitError(this.valuePath(), this.maxTotalNodes));
+      }
+      if (this.nodeCount % BUDGET_CHECK_INTERVAL === 0) {
+        this.checkBudget();
+      }
+      const container = stack[stack.length - 1];
+      if (container?.isArray && container.index === this.maxArrayLength) {
+        this.report(
+          new ArrayLengthLimitError(container.path, this.maxArrayLength),
+          start,
+          this.pointerTo(container),
+        );
+      }
+      if (container && container.containerKeyOffset !== -1) {
+        const c = this.buf[start];
+        if (c !== CHAR_OPEN_BRACE && c !== CHAR_OPEN_BRACKET) {
+          this.reportNotContainer(container);
+        }
+        container.containerKeyOffset = -1;
+      }
+    }
+
+    if (this.items?.match(this.valuePath())) {
+      const { line, column } = this.lineAndColumn(start);
+      this.item = new StrictJsonTokenizer(this.items.options, {
+        fragment: true,
+        origin: { offset: this.base + start, line, column },
+      });
+      this.itemPath = this.valuePath();
+      this.state = "item";
+      return;
+    }
+
+    const c = this.buf[start];
+    if (c === CHAR_OPEN_BRACE || c === CHAR_OPEN_BRACKET) {
+      const isArray = c === CHAR_OPEN_BRACKET;
+      const parent = stack[stack.length - 1];
+      const frame: ContainerFrame = {
+        container: isArray ? [] : {},
+        isArray,
+        parent: parent ?? null,
+        segment: parent ? this.childSegment(parent) : null,
+        path: parent ? this.childPath(parent) : "$",
+        policyState: this.childPolicyState(parent),
+        depth: stack.length,
+        seenKeys: isArray ? null : new Set<string>(),
+        collectedKeys: null,
+        key: "",
+        assignMode: "set",
+        containerKeyOffset: -1,
+        index: 0,
+      };
+      stack.push(frame);
+      this.pos++;
+      this.state = isArray ? "array" : "object";
+      this.onEvent?.(isArray ? "startArray" : "startObject", {
+        path: frame.path,
+        offset: this.base + start,
+      });
+      return;
+    }
+
+    const value = this.readPrimitive(c);
+    this.onEvent?.("value", { path: this.valuePath(), offset: this.base + start, value });
+    this.attach(value);
+  }
+
+  // Passes the buffered bytes to the tokenizer of the current item;
+  // returns false while the item waits for more input
+  private feedItem(): boolean {
+    const item = this.item as StrictJsonTokenizer;
+    if (this.pos < this.end) {
+      item.write(this.buf.subarray(this.pos, this.end));
+    }
+    if (!item.complete && !this.final) {
+      this.pos = this.end;
+      return false;
+    }
+
+    this.pos = this.end - item.unread;
+    const value = item.finish();
+    this.item = null;
+    // Duplicates tolerated inside the item are reported with the document's
+    this.tolerated.push(...item.warnings);
+    (this.items as NonNullable<StrictJsonTokenizerConfig["items"]>).onItem(value, this.itemPath);
+    this.attach(value);
+    return true;
+  }
+
+  // Closes the innermost container at its closing bracket
+  private closeContainer(): void {
+    const frame = this.stack.pop() as ContainerFrame;
+    this.onEvent?.(frame.isArray ? "endArray" : "endObject", {
+      path: frame.path,
+      offset: this.base + this.pos,
+    });
+    this.pos++;
+    this.attach(frame.container);
+  }
+
+  // Stores a completed value in its parent container, or as the result
+  private attach(value: unknown): void {
+    const frame = this.stack[this.stack.length - 1];
+    if (!frame) {
+      if (this.materialize) this.result = value;
+      this.state = this.fragment ? "done" : "end";
+      return;
+    }
+
+    this.state = "next";
+    if (!this.materialize) return;
+    if (frame.isArray) {
+      (frame.container as unknown[]).push(value);
+    } else if (frame.assignMode === "set") {
+      assignProperty(frame.container as Record<string, unknown>, frame.key, value);
+    } else if (frame.assignMode === "append") {
+      ((frame.container as Record<string, unknown>)[frame.key] as unknown[]).push(value);
+    }
+  }
+
+  // Path of the value that starts at the current position
+  private valuePath(): string {
+    const parent = this.stack[this.stack.length - 1];
+    return parent ? this.childPath(parent) : "$";
+  }
+
+  // Stops the scan once the signal is aborted or the time budget is spent;
+  // unlike violations, this is never collected
+  private checkBudget(): void {
+    if (this.signal?.aborted) {
+      throw new ParseTimeoutError();
+    }
+    if (this.timeBudgetMs === Infinity) return;
+    if (this.deadline === 0) {
+      this.deadline = Date.now() + this.timeBudgetMs;
+    } else if (Date.now() > this.deadline) {
+      throw new ParseTimeoutError(this.timeBudgetMs);
+    }
+  }
+
+  // Reports a violation located at the value that starts at the current position
+  private reportAtValue(error: StrictJsonError, offset = this.pos): void {
+    const parent = this.stack[this.stack.length - 1];
+    this.report(error, offset, parent ? this.pointerTo(parent, this.childSegment(parent)) : "");
+  }
+
+  private childSegment(frame: ContainerFrame): string | number {
+    return frame.isArray ? frame.index : frame.key;
+  }
+
+  private childPolicyState(parent: ContainerFrame | undefined): number {
+    const automaton = this.keyPolicy?.automaton;
+    if (!automaton) return 0;
+    return parent ? automaton.next(parent.policyState, this.childSegment(parent)) : automaton.root;
+  }
+
+  private childPath(frame: ContainerFrame): string {
+    return frame.isArray
+      ? `${frame.path}[${frame.index}]`
+      : appendKeyToPath(frame.path, frame.key);
+  }
+
+  // JSON Pointer of a container, or of its child when a segment is given
+  private pointerTo(frame: ContainerFrame | null | undefined, segment?: string | number): string {
+    let pointer = segment === undefined ? "" : `/${escapePointerSegment(segment)}`;
+    for (let f = frame; f && f.segment !== null; f = f.parent) {
+      pointer = `/${escapePointerSegment(f.segment)}${pointer}`;
+    }
+    return pointer;
+  }
+
+  private readPropertyKey(frame: ContainerFrame): void {
+    if (this.buf[this.pos] !== CHAR_QUOTE) this.expected("PropertyNameExpected");
+    const keyOffset = this.pos;
+    const key = this.readString();
+
+    frame.index++;
+    if (frame.index === this.maxKeysPerObject + 1) {
+      this.report(
+        new KeysPerObjectLimitError(frame.path, this.maxKeysPerObject),
+        keyOffset,
+        this.pointerTo(frame),
+      );
+    }
+    // The key itself is left out of the path, it may be arbitrarily long
+    if (key.length > this.maxKeyLength) {
+      this.report(
+        new KeyLengthLimitError(frame.path, this.maxKeyLength),
+        keyOffset,
+        this.pointerTo(frame),
+      );
+    }
+
+    // Enforce whitelist/blacklist policy when enabled.
+    if (this.keyPolicy) {
+      const { automaton } = this.keyPolicy;
+      let violation: KeyPolicyViolation | null;
+      if (automaton) {
+        const decision = automaton.decide(automaton.next(frame.policyState, key));
+        // Decided once the value starts (see readValue)
+        if (decision.reason === "container-of-whitelisted") frame.containerKeyOffset = keyOffset;
+        violation = toKeyPolicyViolation(decision);
+      } else {
+        violation = this.keyPolicy.check(appendKeyToPath(frame.path, key));
+      }
+      if (violation) {
+        const keyPath = appendKeyToPath(frame.path, key);
+        const error = new KeyNotAllowedError(keyPath, key, violation.policy, violation.rule);
+        if (this.explainKeyDecisions) {
+          error.details.explanation = this.keyPolicy.explain(keyPath);
+        }
+        this.report(error, keyOffset, this.pointerTo(frame, key));
+      }
+    }
+
+    // Check for prototype pollution (if enabled and not skipped)
+    if (this.dangerousKeys?.has(key)) {
+      const keyPath = appendKeyToPath(frame.path, key);
+      this.report(new PrototypePollutionError(key, keyPath), keyOffset, this.pointerTo(frame, key));
+    }
+
+    // Check for duplicate keys and apply the duplicate key policy
+    const seenKeys = frame.seenKeys as Set<string>;
+    if (seenKeys.has(key)) {
+      frame.assignMode = this.resolveDuplicate(frame, key, keyOffset);
+    } else {
+      seenKeys.add(key);
+      frame.assignMode = "set";
+    }
+
+    frame.key = key;
+    this.state = "colon";
+    this.onEvent?.("key", {
+      path: appendKeyToPath(frame.path, key),
+      offset: this.base + keyOffset,
+      key,
+    });
+  }
+
+  // Denies the current key of an object, allowed by the key policy only if
+  // its value were a container
+  private reportNotContainer(frame: ContainerFrame): void {
+    const keyPath = appendKeyToPath(frame.path, frame.key);
+    const error = new KeyNotAllowedError(keyPath, frame.key, "whitelist");
+    if (this.explainKeyDecisions) {
+      const { syntax, matches } = (this.keyPolicy as CompiledKeyPolicy).explain(keyPath);
+      error.details.explanation = {
+        path: keyPath,
+        allowed: false,
+        syntax,
+        reason: "not-whitelisted",
+        policy: "whitelist",
+        matches,
+      };
+    }
+    this.report(error, frame.containerKeyOffset, this.pointerTo(frame, frame.key));
+  }
+
+  private resolveDuplicate(
+    frame: ContainerFrame,
+    key: string,
+    keyOffset: number,
+  ): AssignMode {
+    const keyPath = appendKeyToPath(frame.path, key);
+    const pointer = this.pointerTo(frame, key);
+    const error = this.locate(new DuplicateKeyError(keyPath, key), keyOffset, pointer, true);
+
+    // Allow-listed paths are tolerated with JSON.parse (last-wins) semantics
+    let policy = this.duplicateKeyPolicy;
+    if (
+      policy === "reject" &&
+      this.isDuplicateKeyAllowed !== undefined &&
+      this.isDuplicateKeyAllowed(keyPath)
+    ) {
+      policy = "last-wins";
+    }
+
+    if (policy === "reject") {
+      this.report(error, keyOffset, pointer);
+      return "set";
+    }
+
+    this.tolerated.push(error);
+    if (policy === "first-wins") return "skip";
+    if (policy === "last-wins") return "set";
+
+    // Collect: the first occurrence becomes the first item of an array
+    if (!this.materialize) return "skip";
+    const container = frame.container as Record<string, unknown>;
+    frame.collectedKeys ??= new Set<string>();
+    if (!frame.collectedKeys.has(key)) {
+      frame.collectedKeys.add(key);
+      assignProperty(container, key, [container[key]]);
+    }
+    return "append";
+  }
+
+  private readPrimitive(c: number | undefined): unknown {
+    if (c === CHAR_QUOTE) return this.readStringValue();
+    if (c === CHAR_MINUS || (c !== undefined && isDigit(c))) return this.readNumber();
+    if (c === CHAR_LOWER_T) return this.readLiteral(LITERAL_TRUE, true);
+    if (c === CHAR_LOWER_F) return this.readLiteral(LITERAL_FALSE, false);
+    if (c === CHAR_LOWER_N) return this.readLiteral(LITERAL_NULL, null);
+    return this.expected("ValueExpected");
+  }
+
+  private readLiteral(literal: Buffer, value: unknown): unknown {
+    const end = this.pos + literal.length;
+    this.waitFor(end);
+    if (end > this.end || this.buf.compare(literal, 0, literal.length, this.pos, end) !== 0) {
+      // Report the first byte that diverges from the literal
+      let pos = this.pos;
+      while (pos < this.end && pos < end && this.buf[pos] === literal[pos - this.pos]) pos++;
+      this.fail(pos >= this.end ? "UnexpectedEndOfInput" : "InvalidSymbol", pos);
+    }
+    this.pos = end;
+    return value;
+  }
+
+  private readNumber(): number | bigint | string {
+    const buf = this.buf;
+    const start = this.pos;
+    let pos = start;
+
+    // The number may continue in the next chunk
+    if (!this.final) {
+      let scan = start;
+      while (scan < this.end && isNumberByte(buf[scan])) scan++;
+      this.waitFor(scan + 1);
+    }
+
+    if (buf[pos] === CHAR_MINUS) pos++;
+
+    // Integer part: a single zero or a non-zero digit followed by digits
+    if (buf[pos] === CHAR_0) {
+      pos++;
+      // Leading zeros are not allowed
+      if (pos < this.end && isDigit(buf[pos])) this.fail("InvalidNumberFormat", pos);
+    } else if (buf[pos] >= CHAR_1 && buf[pos] <= CHAR_9) {
+      while (pos < this.end && isDigit(buf[pos])) pos++;
+    } else {
+      this.fail("InvalidNumberFormat", pos);
+    }
+    const isInteger = buf[pos] !== CHAR_DOT && buf[pos] !== CHAR_LOWER_E && buf[pos] !== CHAR_UPPER_E;
+
+    if (buf[pos] === CHAR_DOT) {
+      pos++;
+      if (!(pos < this.end && isDigit(buf[pos]))) this.fail("InvalidNumberFormat", pos);
+      while (pos < this.end && isDigit(buf[pos])) pos++;
+    }
+
+    if (buf[pos] === CHAR_LOWER_E || buf[pos] === CHAR_UPPER_E) {
+      pos++;
+      if (buf[pos] === CHAR_PLUS || buf[pos] === CHAR_MINUS) pos++;
+      if (!(pos < this.end && isDigit(buf[pos]))) this.fail("InvalidNumberFormat", pos);
+      while (pos < this.end && isDigit(buf[pos])) pos++;
+    }
+
+    this.pos = pos;
+    const literal = buf.toString("latin1", start, pos);
+    if (this.numberMode === "native" || isLosslessNumber(literal, isInteger)) {
+      return Number(literal);
+    }
+    return this.materializeUnsafeNumber(literal, isInteger, start);
+  }
+
+  // Applies the number mode to a literal that a double cannot hold exactly
+  private materializeUnsafeNumber(
+    literal: string,
+    isInteger: boolean,
+    offset: number,
+  ): number | bigint | string {
+    const path = this.valuePath();
+    if (
+      this.isNumberModePath !== undefined &&
+      !this.isNumberModePath(path)
+    ) {
+      return Number(literal);
+    }
+
+    if (this.numberMode === "string") return literal;
+    if (this.numberMode === "bigint") {
+      const integer = isInteger ? BigInt(literal) : toExactBigInt(literal);
+      if (integer !== undefined) return integer;
+    }
+
+    // Reject mode, or a high-precision decimal that no bigint can hold
+    this.reportAtValue(new UnsafeNumberError(path, literal), offset);
+    return Number(literal);
+  }
+
+  private readStringValue(): string {
+    const start = this.pos;
+    const value = this.readString();
+    if (value.length > this.maxStringLength) {
+      this.reportAtValue(new StringLengthLimitError(this.valuePath(), this.maxStringLength), start);
+    }
+    return value;
+  }
+
+  private readString(): string {
+    const buf = this.buf;
+    const start = this.pos + 1;
+    let pos = start;
+
+    // Fast path: no escape sequences, decode the slice directly
+    while (pos < this.end) {
+      const c = buf[pos];
+      if (c === CHAR_QUOTE) {
+        this.pos = pos + 1;
+        return buf.toString("utf8", start, pos);
+      }
+      if (c === CHAR_BACKSLASH) {
+        return this.readEscapedString(start, pos);
+      }
+      if (c < CHAR_SPACE) this.fail("InvalidCharacter", pos);
+      pos++;
+    }
+
+    this.waitFor(pos + 1);
+    return this.fail("UnexpectedEndOfString", pos);
+  }
+
+  private readEscapedString(start: number, escapeAt: number): string {
+    const buf = this.buf;
+    let result = buf.toString("utf8", start, escapeAt);
+    let pos = escapeAt;
+    let chunkStart = pos;
+
+    while (pos < this.end) {
+      const c = buf[pos];
+
+      if (c === CHAR_QUOTE) {
+        result += buf.toString("utf8", chunkStart, pos);
+        this.pos = pos + 1;
+        return result;
+      }
+
+      if (c === CHAR_BACKSLASH) {
+        this.waitFor(pos + 2);
+        result += buf.toString("utf8", chunkStart, pos);
+        const escaped = buf[pos + 1];
+        switch (escaped) {
+          case CHAR_QUOTE: result += '"'; break;
+          case CHAR_BACKSLASH: result += "\\"; break;
+          case CHAR_SLASH: result += "/"; break;
+          case CHAR_LOWER_B: result += "\b"; break;
+          case CHAR_LOWER_F: result += "\f"; break;
+          case CHAR_LOWER_N: result += "\n"; break;
+          case CHAR_LOWER_R: result += "\r"; break;
+          case CHAR_LOWER_T: result += "\t"; break;
+          case CHAR_LOWER_U: {
+            this.waitFor(pos + 6);
+            let code = 0;
+            for (let i = 2; i < 6; i++) {
+              const digit = hexValue(buf[pos + i]);
+              if (digit < 0) this.fail("InvalidUnicode", pos);
+              code = code * 16 + digit;
+            }
+            result += String.fromCharCode(code);
+            pos += 4;
+            break;
+          }
+          default:
+            this.fail("InvalidEscapeCharacter", pos);
+        }
+        pos += 2;
+        chunkStart = pos;
+        continue;
+      }
+
+      if (c < CHAR_SPACE) this.fail("InvalidCharacter", pos);
+      pos++;
+    }
+
+    this.waitFor(pos + 1);
+    return this.fail("UnexpectedEndOfString", pos);
+  }
+
+  // Suspends the scan until the buffer holds `end` bytes, unless the input is complete
+  private waitFor(end: number): void {
+    if (end > this.end && !this.final) throw SUSPENDED;
+  }
+
+  private skipWhitespace(): void {
+    const buf = this.buf;
+    let pos = this.pos;
+    while (pos < this.end) {
+      const c = buf[pos];
+      if (c !== CHAR_SPACE && c !== CHAR_LF && c !== CHAR_CR && c !== CHAR_TAB) break;
+      pos++;
+    }
+    this.pos = pos;
+  }
+
+  // Throws the violation right away, or records it and keeps scanning
+  // when every violation should be reported.
+  private report(error: StrictJsonError, offset: number, pointer: string): void {
+    this.locate(error, offset, pointer);
+    if (!this.collectAllViolations) {
+      throw error;
+    }
+
+    this.violations.push(error);
+    if (this.violations.length >= this.maxViolations) {
+      throw this.collectedViolations();
+    }
+  }
+
+  private collectedViolations(): StrictJsonError {
+    const [first] = this.violations;
+    first.details.violations = this.violations.map(({ details }) => ({ ...details }));
+    return first;
+  }
+
+  // Adds the JSON Pointer, byte offset, line and column of the offending token
+  // (and, for syntax and duplicate key errors, the source around it), then
+  // redacts the input the error echoes
+  private locate<T extends StrictJsonError>(
+    error: T,
+    offset: number,
+    pointer: string,
+    withExcerpt = false,
+  ): T {
+    const { line, column } = this.lineAndColumn(offset);
+    error.details.pointer = pointer;
+    error.details.position = this.base + offset;
+    error.details.line = line;
+    error.details.column = column;
+    if (withExcerpt && this.includeExcerpt) {
+      error.details.excerpt = createExcerpt(this.buf, offset, this.excerptRadius);
+    }
+    this.redact?.(error);
+    return error;
+  }
+
+  private lineAndColumn(offset: number): { line: number; column: number } {
+    const buf = this.buf;
+    const target = this.base + offset;
+    let cursor = this.lineCursor;
+    if (target < cursor.offset) {
+      // Dropped chunks cannot be scanned again
+      if (this.base > 0) return { line: cursor.line, column: cursor.column };
+      cursor = { offset: 0, line: 1, column: 1 };
+    }
+
+    // Columns count UTF-16 characters, not bytes, so they match what editors show
+    let { line, column } = cursor;
+    for (let pos = cursor.offset - this.base; pos < offset; pos++) {
+      const c = buf[pos];
+      if (c === CHAR_LF) {
+        line++;
+        column = 1;
+      } else if ((c & 0xc0) !== 0x80) {
+        // Count lead bytes only; four-byte sequences are surrogate pairs
+        column += c >= 0xf0 ? 2 : 1;
+      }
+    }
+    this.lineCursor = { offset: target, line, column };
+    return { line, column };
+  }
+
+  private expected(kind: StrictJsonSyntaxErrorKind): never {
+    return this.fail(this.pos >= this.end ? "UnexpectedEndOfInput" : kind);
+  }
+
+  private fail(kind: StrictJsonSyntaxErrorKind, offset = this.pos): never {
+    const { line, column } = this.lineAndColumn(offset);
+    const error = new InvalidJsonError(
+      defaultErrorMessage({ code: "STRICT_JSON_INVALID_JSON", message: "", syntaxError: kind, line, column }),
+    );
+    // Syntax errors point at the innermost open container
+    const frame = this.stack[this.stack.length - 1];
+    error.details.syntaxError = kind;
+    error.details.path = frame?.path ?? "$";
+    this.locate(error, offset, this.pointerTo(frame), true);
+    // A syntax error ends the scan; keep what was collected before it
+    if (this.violations.length > 0) {
+      this.violations.push(error);
+      throw this.collectedViolations();
+    }
+    throw error;
+  }
+}
+
+/**
+ * Parses and validates a JSON document in a single pass.
+ */
+export const materializeStrictJson = (
+  buf: Buffer,
+  options?: StrictJsonOptions,
+): unknown => new StrictJsonTokenizer(options).parse(buf);
@@ -1,25 +1,202 @@
+import type { IncomingMessage } from "node:http";
+import type { StrictJsonError } from "./errors.js";
+
 export type StrictJsonErrorHandler = (
   error: unknown
 ) => void | Promise<void>;
 
+/**
+ * Error response sent by an adapter. `body` is serialized as JSON.
+ */
+export interface StrictJsonErrorResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+/**
+ * Builds the response to a rejected body. `req` is the Node request on every
+ * adapter (Fastify's `request.raw`), so one formatter serves all of them.
+ */
+export type StrictJsonErrorResponseFormatter = (
+  error: StrictJsonError,
+  req: IncomingMessage
+) => StrictJsonErrorResponse;
+
+/**
+ * How repeated keys within one object are handled:
+ * - "reject": throw DuplicateKeyError (default)
+ * - "first-wins": keep the first value
+ * - "last-wins": keep the last value, like JSON.parse
+ * - "collect": gather every value into an array
+ */
+export type DuplicateKeyPolicy = "reject" | "first-wins" | "last-wins" | "collect";
+
+/**
+ * How numbers that a JavaScript number cannot hold exactly (integers beyond
+ * Number.MAX_SAFE_INTEGER, however they are written, and high-precision
+ * decimals) are materialized:
+ * - "native": convert like JSON.parse, possibly losing precision (default)
+ * - "reject": throw UnsafeNumberError
+ * - "bigint": integers become bigint; unsafe decimals are rejected
+ * - "string": keep the original literal as a string
+ */
+export type NumberMode = "native" | "reject" | "bigint" | "string";
+
+/**
+ * Syntax of whitelist/blacklist patterns:
+ * - "legacy": the globs of earlier versions and their special cases (default)
+ * - "pattern": the key policy pattern language, with "*" and "**" segments,
+ *   quoted keys, "!" negation, "re:" segments and most-specific-match
+ *   precedence (opt-in)
+ */
+export type KeyPolicySyntax = "pattern" | "legacy";
+
+/**
+ * Case of the key policy that decided a key (see explainKeyDecision).
+ * Pattern syntax:
+ * - "most-specific-rule": the most specific matching rule
+ * - "deny-wins-tie": a deny, as specific as a matching allow
+ * - "parent-of-whitelisted": a whitelist rule matches a key below this one
+ * - "container-of-whitelisted": a whitelist rule may match a key below this
+ *   one through a "**"; parsers deny the key unless its value is an object
+ *   or an array
+ * Legacy syntax:
+ * - "whitelist-match", "whitelist-parent": the key or a key below it matches
+ * - "whitelist-suffix-key": a "*.key" whitelist entry names the key
+ * - "whitelist-wildcard-prefix": the key starts with the path before a wildcard
+ * - "literal-whitelist-overrides-blacklist": a whitelist entry without
+ *   wildcards covers the key, so the blacklist is not checked
+ * - "wildcard-whitelist-allowed": a wildcard whitelist entry matches and no
+ *   blacklist pattern does
+ * - "blacklist-match", "blacklist-suffix-key", "blacklist-key-name": a
+ *   blacklist pattern matches, names the key under "*.", or names it at any depth
+ * - "empty-whitelist": an empty whitelist denies every key
+ * Both:
+ * - "not-whitelisted": no whitelist rule allows the key
+ * - "not-blacklisted": no rule matches and there is no whitelist
+ * - "no-policy": no whitelist and no blacklist
+ */
+export type KeyPolicyReason =
+  | "most-specific-rule"
+  | "deny-wins-tie"
+  | "parent-of-whitelisted"
+  | "container-of-whitelisted"
+  | "whitelist-match"
+  | "whitelist-parent"
+  | "whitelist-suffix-key"
+  | "whitelist-wildcard-prefix"
+  | "literal-whitelist-overrides-blacklist"
+  | "wildcard-whitelist-allowed"
+  | "blacklist-match"
+  | "blacklist-suffix-key"
+  | "blacklist-key-name"
+  | "empty-whitelist"
+  | "not-whitelisted"
+  | "not-blacklisted"
+  | "no-policy";
+
+/**
+ * Whitelist or blacklist rule matching a key path
+ */
+export type KeyPolicyRuleMatch = {
+  policy: "whitelist" | "blacklist";
+  rule: string;
+  allows: boolean; // false for whitelist "!" rules and blacklist rules
+};
+
+/**
+ * Why a key policy allowed or denied a key path
+ */
+export type KeyPolicyExplanation = {
+  path: string;
+  allowed: boolean;
+  syntax: KeyPolicySyntax;
+  reason: KeyPolicyReason;
+  policy?: "whitelist" | "blacklist"; // List of the deciding rule
+  rule?: string;                      // Deciding rule
+  matches: KeyPolicyRuleMatch[];      // Every rule matching the path (legacy: as a plain glob)
+};
+
+/**
+ * Problem found in the options when they are registered
+ */
+export type StrictJsonConfigurationIssue = {
+  code: string;    // e.g., "SHADOWED_BLACKLIST_RULE"
+  message: string;
+};
+
+/**
+ * Problem found in a whitelist/blacklist (see lintKeyPolicy):
+ * - "MALFORMED_PATTERN": the pattern does not parse
+ * - "DUPLICATE_PATTERN": the list already has an equivalent pattern
+ * - "SHADOWED_BLACKLIST_RULE": a more specific allow covers every key the
+ *   blacklist rule matches, so it never denies a key
+ * - "UNREACHABLE_WHITELIST_RULE": the rule never allows a key (an equally or
+ *   more specific deny covers it, or its keys are deeper than maxDepth)
+ * - "DANGEROUS_KEY_WHITELISTED": the rule allows a prototype pollution key by name
+ */
+export type KeyPolicyLintIssue = StrictJsonConfigurationIssue & {
+  code:
+    | "MALFORMED_PATTERN"
+    | "DUPLICATE_PATTERN"
+    | "SHADOWED_BLACKLIST_RULE"
+    | "UNREACHABLE_WHITELIST_RULE"
+    | "DANGEROUS_KEY_WHITELISTED"
+    | "USELESS_PATTERN";
+  policy: "whitelist" | "blacklist";
+  rule: string;
+};
+
 export type StrictJsonOptions = {
   maxBodySizeBytes?: number;
   enablePrototypePollutionProtection?: boolean;
   dangerousKeys?: string[];
   onDuplicateKey?: StrictJsonErrorHandler;
+  onDuplicateKeyWarning?: StrictJsonErrorHandler;
   onInvalidJson?: StrictJsonErrorHandler;
   onBodyTooLarge?: StrictJsonErrorHandler;
   onPrototypePollution?: StrictJsonErrorHandler;
+  onKeyNotAllowed?: StrictJsonErrorHandler;
+  onDepthLimit?: StrictJsonErrorHandler;
+  onKeysPerObjectLimit?: StrictJsonErrorHandler;
+  onArrayLengthLimit?: StrictJsonErrorHandler;
+  onStringLengthLimit?: StrictJsonErrorHandler;
+  onKeyLengthLimit?: StrictJsonErrorHandler;
+  onTotalNodesLimit?: StrictJsonErrorHandler;
+  onTimeout?: StrictJsonErrorHandler;
   onError?: StrictJsonErrorHandler;
   whitelist?: string[];
   blacklist?: string[];
+  keyPolicySyntax?: KeyPolicySyntax; // default: "legacy"
+  explainKeyDecisions?: boolean; // Attach the explanation to KeyNotAllowedError details (debugging)
+  keyPolicyLint?: "warn" | "error" | "off"; // Checks run on registration (default: "warn")
   maxDepth?: number;
   ignoreCase?: boolean;
+
+  // Structural limits (default: unlimited)
+  maxKeysPerObject?: number;        // Maximum number of keys in a single object
+  maxArrayLength?: number;          // Maximum number of items in a single array
+  maxStringLength?: number;         // Maximum length of a string value, in characters
+  maxKeyLength?: number;            // Maximum length of an object key, in characters
+  maxTotalNodes?: number;           // Maximum number of values in the whole document
+
+  // Cancellation (checked periodically while the document is scanned)
+  timeBudgetMs?: number;            // Maximum parse time, measured from the first byte scanned (default: unlimited)
+  signal?: AbortSignal;             // Stops parsing once aborted
   
   // Streaming options
   enableStreaming?: boolean;        // Automatically enable streaming for large payloads
   streamingThreshold?: number;      // Threshold in bytes (default: 100KB)
   chunkSize?: number;               // Chunk size for streaming (default: 64KB)
+
+  // Worker thread options (parseStrictJsonAsync and the adapters)
+  enableWorkerPool?: boolean;       // Parse large payloads in worker threads (default: false)
+  workerThreshold?: number;         // Threshold in bytes (default: 1MB)
+  workerPoolSize?: number;          // Maximum number of workers (default: available CPUs - 1, at least 1)
+  workerQueueLimit?: number;        // Maximum number of payloads waiting for a worker (default: 100)
+  workerTimeoutMs?: number;         // Maximum parse time per payload in a worker (default: 10000)
+  workerScript?: string | URL;      // Worker entry point (default: the bundled parse-worker)
   
   // Lazy mode options for large payloads optimization
   lazyMode?: boolean;              // Enable lazy mode for better performance with large payloads (default: false)
@@ -36,22 +213,121 @@ export type StrictJsonOptions = {
   
   // Fast path options
   enableFastPath?: boolean;         // Enable fast path for simple validation (default: false)
+
+  // Violation reporting options
+  collectAllViolations?: boolean;   // Report every violation instead of stopping at the first (default: false)
+  maxViolations?: number;           // Stop collecting after this many violations (default: 100)
+
+  // Error context options
+  includeExcerpt?: boolean;         // Add `excerpt` to syntax and duplicate key errors (default: false)
+
+  // Redaction of user input echoed in errors
+  maxEchoLength?: number;           // Truncate echoed keys, literals and excerpts to this many characters (default: unlimited)
+  sensitiveKeys?: string[];         // Glob patterns of key names masked as "***" (case-insensitive)
+  omitInputFromResponses?: boolean; // Leave keys, paths and excerpts out of adapter responses; handlers still get them (default: false)
+
+  // Duplicate key options
+  duplicateKeyPolicy?: DuplicateKeyPolicy; // How repeated keys are handled (default: "reject")
+  duplicateKeyAllowList?: string[]; // Glob paths where duplicates are tolerated with last-wins semantics ("*" also matches an array item)
+
+  // Number options
+  numberMode?: NumberMode;          // Handling of numbers that lose precision (default: "native")
+  numberModePaths?: string[];       // Glob paths numberMode applies to, "*" also matching an array item (default: everywhere)
+
+  // Error response options (Express, Fastify and Nest integration)
+  errorFormat?: StrictJsonErrorFormat; // Body of error responses (default: "default")
+  problemTypeBaseUri?: string;      // Base of problem+json `type` URIs (default: the error code reference)
+  errorResponseFormatter?: StrictJsonErrorResponseFormatter; // Custom responses (overrides errorFormat)
+  locale?: string;                  // Language of response messages (default: English as thrown)
+  localeFromAcceptLanguage?: boolean; // Pick the language from Accept-Language, falling back to locale (default: false)
 };
 
+/**
+ * Body of the error responses sent by the adapters:
+ * - "default": the adapter's own JSON shape
+ * - "problem+json": RFC 9457 problem details, identical on every adapter
+ */
+export type StrictJsonErrorFormat = "default" | "problem+json";
+
 export type StrictJsonErrorCode =
   | "STRICT_JSON_DUPLICATE_KEY"
   | "STRICT_JSON_INVALID_JSON"
   | "STRICT_JSON_BODY_TOO_LARGE"
   | "STRICT_JSON_PROTOTYPE_POLLUTION"
-  | "STRICT_JSON_DEPTH_LIMIT";
+  | "STRICT_JSON_DEPTH_LIMIT"
+  | "STRICT_JSON_UNSAFE_NUMBER"
+  | "STRICT_JSON_KEYS_PER_OBJECT_LIMIT"
+  | "STRICT_JSON_ARRAY_LENGTH_LIMIT"
+  | "STRICT_JSON_STRING_LENGTH_LIMIT"
+  | "STRICT_JSON_KEY_LENGTH_LIMIT"
+  | "STRICT_JSON_TOTAL_NODES_LIMIT"
+  | "STRICT_JSON_KEY_NOT_ALLOWED"
+  | "STRICT_JSON_TIMEOUT"
+  | "STRICT_JSON_WORKER_QUEUE_FULL"
+  | "STRICT_JSON_WORKER_TIMEOUT"
+  | "STRICT_JSON_WORKER_FAILED";
+
+/**
+ * Specific kind of syntax error reported with STRICT_JSON_INVALID_JSON.
+ */
+export type StrictJsonSyntaxErrorKind =
+  | "UnexpectedEndOfInput"
+  | "ValueExpected"
+  | "PropertyNameExpected"
+  | "ColonExpected"
+  | "CommaExpected"
+  | "EndOfInputExpected"
+  | "InvalidSymbol"
+  | "InvalidNumberFormat"
+  | "InvalidCharacter"
+  | "InvalidEscapeCharacter"
+  | "InvalidUnicode"
+  | "UnexpectedEndOfString";
+
+/**
+ * Messages of one locale, keyed by error code. Codes missing from a catalog
+ * fall back to English.
+ */
+export type StrictJsonMessageCatalog = Partial<
+  Record<StrictJsonErrorCode, (details: StrictJsonErrorDetails) => string>
+>;
 
 export type StrictJsonErrorDetails = {
   code: StrictJsonErrorCode;
   message: string;
-  path?: string;
+  path?: string;      // Path in dot/bracket notation, e.g. $.data["a.b"][0]
+  pointer?: string;   // RFC 6901 JSON Pointer, e.g. /data/a.b/0
   key?: string;
-  position?: number;
+  position?: number;  // Byte offset of the offending token
+  line?: number;      // 1-based line of the offending token
+  column?: number;    // 1-based column (in characters) of the offending token
+  syntaxError?: StrictJsonSyntaxErrorKind;
+  excerpt?: string;   // Source around the offending token and a caret line (includeExcerpt)
   dangerousKey?: string;
   currentDepth?: number;
   maxDepth?: number;
+  numberLiteral?: string;
+  limit?: number;
+  policy?: "whitelist" | "blacklist"; // Key policy that rejected the key
+  rule?: string;      // Pattern that denied the key
+  explanation?: KeyPolicyExplanation; // Why the key was denied (explainKeyDecisions)
+  violations?: StrictJsonErrorDetails[];
+};
+
+/**
+ * Events emitted by StreamingJsonParser when event emission is enabled.
+ */
+export type StrictJsonEventType =
+  | "startObject"
+  | "endObject"
+  | "startArray"
+  | "endArray"
+  | "key"
+  | "value";
+
+export type StrictJsonEvent = {
+  path: string;       // Path of the container, property or value
+  offset: number;     // Byte offset of the token in the whole input
+  key?: string;       // Set on "key" events
+  value?: unknown;    // Set on "value" events (strings, numbers, booleans and null)
 };
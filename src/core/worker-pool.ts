@@ -0,0 +1,350 @@
+import { Worker } from "node:worker_threads";
+import { availableParallelism } from "node:os";
+import { join } from "node:path";
+import {
+  ArrayLengthLimitError,
+  DepthLimitError,
+  DuplicateKeyError,
+  InvalidJsonError,
+  KeyLengthLimitError,
+  KeyNotAllowedError,
+  KeysPerObjectLimitError,
+  ParseTimeoutError,
+  PrototypePollutionError,
+  StringLengthLimitError,
+  TotalNodesLimitError,
+  UnsafeNumberError,
+  WorkerPoolError,
+  type StrictJsonError,
+} from "./errors.js";
+import type { StrictJsonErrorDetails, StrictJsonOptions } from "./types.js";
+
+const DEFAULT_WORKER_THRESHOLD = 1024 * 1024; // 1MB
+const DEFAULT_QUEUE_LIMIT = 100;
+const DEFAULT_TIMEOUT_MS = 10000;
+
+/**
+ * Message sent to a parse worker.
+ */
+export interface WorkerJobMessage {
+  id: number;
+  buf: Uint8Array;
+  options?: StrictJsonOptions;
+}
+
+/**
+ * Message sent back by a parse worker.
+ */
+export type WorkerReplyMessage =
+  | { id: number; value: unknown; warnings: StrictJsonErrorDetails[] }
+  | { id: number; error: StrictJsonErrorDetails };
+
+export interface WorkerParseResult {
+  value: unknown;
+  warnings: DuplicateKeyError[];
+}
+
+export interface WorkerPoolConfig {
+  size: number;
+  queueLimit: number;
+  timeoutMs: number;
+  script: string | URL;
+}
+
+interface PendingJob {
+  message: WorkerJobMessage;
+  resolve: (result: WorkerParseResult) => void;
+  reject: (error: unknown) => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  job: PendingJob | null;
+  timer: NodeJS.Timeout | null;
+}
+
+// Rebuilds an error reported by a worker as the class it was thrown as
+const restoreError = (details: StrictJsonErrorDetails): StrictJsonError => {
+  const path = details.path ?? "$";
+  const limit = details.limit ?? 0;
+  let error: StrictJsonError;
+  switch (details.code) {
+    case "STRICT_JSON_DUPLICATE_KEY":
+      error = new DuplicateKeyError(path, details.key ?? "");
+      break;
+    case "STRICT_JSON_PROTOTYPE_POLLUTION":
+      error = new PrototypePollutionError(details.dangerousKey ?? "", path);
+      break;
+    case "STRICT_JSON_DEPTH_LIMIT":
+      error = new DepthLimitError(details.currentDepth ?? 0, details.maxDepth ?? 0);
+      break;
+    case "STRICT_JSON_UNSAFE_NUMBER":
+      error = new UnsafeNumberError(path, details.numberLiteral ?? "");
+      break;
+    case "STRICT_JSON_KEYS_PER_OBJECT_LIMIT":
+      error = new KeysPerObjectLimitError(path, limit);
+      break;
+    case "STRICT_JSON_ARRAY_LENGTH_LIMIT":
+      error = new ArrayLengthLimitError(path, limit);
+      break;
+    case "STRICT_JSON_STRING_LENGTH_LIMIT":
+      error = new StringLengthLimitError(path, limit);
+      break;
+    case "STRICT_JSON_KEY_LENGTH_LIMIT":
+      error = new KeyLengthLimitError(path, limit);
+      break;
+    case "STRICT_JSON_TOTAL_NODES_LIMIT":
+      error = new TotalNodesLimitError(path, limit);
+      break;
+    case "STRICT_JSON_KEY_NOT_ALLOWED":
+      error = new KeyNotAllowedError(
+        path,
+        details.key ?? "",
+        details.policy ?? "whitelist",
+        details.rule,
+      );
+      break;
+    case "STRICT_JSON_TIMEOUT":
+      error = new ParseTimeoutError(details.limit);
+      break;
+    default:
+      error = new InvalidJsonError(details.message);
+  }
+  Object.assign(error.details, details);
+  return error;
+};
+
+// Handlers cannot cross the thread boundary; they run on the main thread,
+// and the signal is watched by the pool
+const toCloneableOptions = (options?: StrictJsonOptions): StrictJsonOptions | undefined => {
+  if (!options) return undefined;
+  return Object.fromEntries(
+    Object.entries(options).filter(
+      ([key, value]) =>
+        typeof value !== "function" && key !== "workerScript" && key !== "signal",
+    ),
+  ) as StrictJsonOptions;
+};
+
+/**
+ * Pool of worker threads that parse payloads off the event loop.
+ * Workers are started on demand up to `size`, payloads wait in a queue of
+ * at most `queueLimit` entries, and a worker that exceeds `timeoutMs` on a
+ * payload is terminated and replaced.
+ */
+export class StrictJsonWorkerPool {
+  private readonly workers: PoolWorker[] = [];
+  private readonly queue: PendingJob[] = [];
+  private nextId = 0;
+  private closed = false;
+
+  public constructor(private readonly config: WorkerPoolConfig) {}
+
+  /**
+   * Parses a payload in a worker thread.
+   * Aborting `options.signal` drops a waiting payload or terminates the
+   * worker parsing it.
+   * @throws The same errors as parseStrictJson, or WorkerPoolError when the
+   * queue is full, the payload times out or the worker fails
+   */
+  public run(buf: Buffer, options?: StrictJsonOptions): Promise<WorkerParseResult> {
+    return new Promise((resolve, reject) => {
+      if (this.closed) {
+        reject(new WorkerPoolError("STRICT_JSON_WORKER_FAILED", "Worker pool is closed"));
+        return;
+      }
+      const signal = options?.signal;
+      if (signal?.aborted) {
+        reject(new ParseTimeoutError());
+        return;
+      }
+
+      const onAbort = () => this.cancel(job);
+      const job: PendingJob = {
+        message: { id: this.nextId++, buf, options: toCloneableOptions(options) },
+        resolve: (result) => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve(result);
+        },
+        reject: (error) => {
+          signal?.removeEventListener("abort", onAbort);
+          reject(error);
+        },
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+      const worker = this.acquireWorker();
+      if (worker) {
+        this.dispatch(worker, job);
+      } else if (this.queue.length >= this.config.queueLimit) {
+        job.reject(
+          new WorkerPoolError(
+            "STRICT_JSON_WORKER_QUEUE_FULL",
+            `Worker queue is full (${this.config.queueLimit} payloads waiting)`,
+          ),
+        );
+      } else {
+        this.queue.push(job);
+      }
+    });
+  }
+
+  /**
+   * Terminates every worker and rejects the payloads still waiting.
+   */
+  public async close(): Promise<void> {
+    this.closed = true;
+    for (const job of this.queue.splice(0)) {
+      job.reject(new WorkerPoolError("STRICT_JSON_WORKER_FAILED", "Worker pool is closed"));
+    }
+    await Promise.all(
+      this.workers.splice(0).map((entry) => {
+        this.settle(entry, new WorkerPoolError("STRICT_JSON_WORKER_FAILED", "Worker pool is closed"));
+        return entry.worker.terminate();
+      }),
+    );
+  }
+
+  private cancel(job: PendingJob): void {
+    const queued = this.queue.indexOf(job);
+    if (queued !== -1) {
+      this.queue.splice(queued, 1);
+      job.reject(new ParseTimeoutError());
+      return;
+    }
+
+    const entry = this.workers.find((worker) => worker.job === job);
+    if (entry) {
+      this.terminate(entry, new ParseTimeoutError());
+    }
+  }
+
+  // Stops a worker in the middle of a payload; it is replaced on the next one
+  private terminate(entry: PoolWorker, error: StrictJsonError): void {
+    this.settle(entry, error);
+    this.remove(entry);
+    void entry.worker.terminate();
+    this.dispatchNext();
+  }
+
+  private acquireWorker(): PoolWorker | null {
+    const idle = this.workers.find((entry) => entry.job === null);
+    if (idle) return idle;
+    if (this.workers.length >= this.config.size) return null;
+
+    const entry: PoolWorker = { worker: new Worker(this.config.script), job: null, timer: null };
+    entry.worker.unref();
+    entry.worker.on("message", (reply: WorkerReplyMessage) => this.complete(entry, reply));
+    entry.worker.on("error", (error) => this.discard(entry, error.message));
+    entry.worker.on("exit", (code) => this.discard(entry, `Worker exited with code ${code}`));
+    this.workers.push(entry);
+    return entry;
+  }
+
+  private dispatch(entry: PoolWorker, job: PendingJob): void {
+    entry.job = job;
+    entry.timer = setTimeout(() => {
+      this.terminate(
+        entry,
+        new WorkerPoolError(
+          "STRICT_JSON_WORKER_TIMEOUT",
+          `Worker did not finish parsing within ${this.config.timeoutMs}ms`,
+        ),
+      );
+    }, this.config.timeoutMs);
+    entry.timer.unref();
+    entry.worker.postMessage(job.message);
+  }
+
+  private complete(entry: PoolWorker, reply: WorkerReplyMessage): void {
+    const job = entry.job;
+    if (!job || job.message.id !== reply.id) return;
+    this.clear(entry);
+
+    if ("error" in reply) {
+      job.reject(restoreError(reply.error));
+    } else {
+      job.resolve({
+        value: reply.value,
+        warnings: reply.warnings.map((details) => restoreError(details) as DuplicateKeyError),
+      });
+    }
+    this.dispatchNext();
+  }
+
+  // A worker that crashed or exited is replaced on the next payload
+  private discard(entry: PoolWorker, reason: string): void {
+    if (!this.remove(entry)) return;
+    this.settle(entry, new WorkerPoolError("STRICT_JSON_WORKER_FAILED", `Worker failed: ${reason}`));
+    this.dispatchNext();
+  }
+
+  private dispatchNext(): void {
+    if (this.queue.length === 0) return;
+    const worker = this.acquireWorker();
+    if (worker) {
+      this.dispatch(worker, this.queue.shift() as PendingJob);
+    }
+  }
+
+  private settle(entry: PoolWorker, error: StrictJsonError): void {
+    const job = entry.job;
+    this.clear(entry);
+    job?.reject(error);
+  }
+
+  private clear(entry: PoolWorker): void {
+    if (entry.timer) clearTimeout(entry.timer);
+    entry.timer = null;
+    entry.job = null;
+  }
+
+  private remove(entry: PoolWorker): boolean {
+    const index = this.workers.indexOf(entry);
+    if (index === -1) return false;
+    this.workers.splice(index, 1);
+    return true;
+  }
+}
+
+// Pools shared by every parse with the same worker settings
+const pools = new Map<string, StrictJsonWorkerPool>();
+
+/**
+ * Checks if a payload should be parsed in a worker thread.
+ */
+export function shouldUseWorkerPool(buffer: Buffer, options?: StrictJsonOptions): boolean {
+  return (
+    options?.enableWorkerPool === true &&
+    buffer.length >= (options.workerThreshold ?? DEFAULT_WORKER_THRESHOLD)
+  );
+}
+
+/**
+ * Returns the shared worker pool for the worker settings in the options.
+ */
+export function getWorkerPool(options?: StrictJsonOptions): StrictJsonWorkerPool {
+  const config: WorkerPoolConfig = {
+    size: Math.max(1, options?.workerPoolSize ?? availableParallelism() - 1),
+    queueLimit: Math.max(0, options?.workerQueueLimit ?? DEFAULT_QUEUE_LIMIT),
+    timeoutMs: options?.workerTimeoutMs ?? DEFAULT_TIMEOUT_MS,
+    // The worker is bundled next to the entry point (dist/parse-worker.cjs)
+    script: options?.workerScript ?? join(__dirname, "parse-worker.cjs"),
+  };
+  const key = JSON.stringify({ ...config, script: String(config.script) });
+
+  let pool = pools.get(key);
+  if (!pool) {
+    pool = new StrictJsonWorkerPool(config);
+    pools.set(key, pool);
+  }
+  return pool;
+}
+
+/**
+ * Terminates every shared worker pool (e.g., on application shutdown).
+ */
+export async function closeWorkerPools(): Promise<void> {
+  const closing = [...pools.values()].map((pool) => pool.close());
+  pools.clear();
+  await Promise.all(closing);
+}
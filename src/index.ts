@@ -2,8 +2,10 @@ export { parseStrictJson, parseStrictJsonAsync, clearParseCache, getParseCacheSi
 export {
   StreamingJsonParser,
   parseJsonStream,
+  streamJsonItems,
   shouldUseStreaming,
 } from "./core/streaming-parser.js";
+export type { StreamingJsonParserOptions, StrictJsonItem } from "./core/streaming-parser.js";
 export {
   StrictJsonError,
   DuplicateKeyError,
@@ -11,20 +13,76 @@ export {
   BodyTooLargeError,
   PrototypePollutionError,
   DepthLimitError,
+  UnsafeNumberError,
+  KeysPerObjectLimitError,
+  ArrayLengthLimitError,
+  StringLengthLimitError,
+  KeyLengthLimitError,
+  TotalNodesLimitError,
+  KeyNotAllowedError,
+  ParseTimeoutError,
+  WorkerPoolError,
+  StrictJsonConfigurationError,
 } from "./core/errors.js";
+export {
+  registerMessageCatalog,
+  getMessageLocales,
+  formatErrorMessage,
+  negotiateLocale,
+  localizeError,
+  getErrorTitle,
+} from "./core/messages.js";
+export { omitUserInput } from "./core/redaction.js";
+export { resolveStrictJsonOptions } from "./core/options.js";
+export type { ResolvedStrictJsonOptions } from "./core/options.js";
+export { presets, extendPreset } from "./core/presets.js";
+export type { StrictJsonPresetName } from "./core/presets.js";
+export { StrictJsonWorkerPool, getWorkerPool, closeWorkerPools } from "./core/worker-pool.js";
 export type {
   StrictJsonOptions,
   StrictJsonErrorDetails,
   StrictJsonErrorCode,
+  DuplicateKeyPolicy,
+  StrictJsonSyntaxErrorKind,
+  NumberMode,
+  KeyPolicySyntax,
+  KeyPolicyReason,
+  KeyPolicyRuleMatch,
+  KeyPolicyExplanation,
+  StrictJsonConfigurationIssue,
+  KeyPolicyLintIssue,
+  StrictJsonErrorFormat,
+  StrictJsonErrorResponse,
+  StrictJsonErrorResponseFormatter,
+  StrictJsonMessageCatalog,
+  StrictJsonEventType,
+  StrictJsonEvent,
 } from "./core/types.js";
 export {
   globToRegex,
   matchGlobPattern,
   isKeyAllowed,
+  findKeyPolicyViolation,
+  matchesAnyPath,
+  createPathMatcher,
+  explainKeyDecision,
 } from "./core/utils.js";
+export type { KeyPolicyViolation } from "./core/utils.js";
+export { compileKeyPolicy } from "./core/pattern-matcher.js";
+export type { KeyPolicyMatcher } from "./core/pattern-matcher.js";
+export { parseKeyPattern } from "./core/key-pattern.js";
+export type { KeyPattern } from "./core/key-pattern.js";
+export { lintKeyPolicy } from "./core/policy-lint.js";
+export {
+  appendKeyToPath,
+  escapePointerSegment,
+  escapeControlChars,
+  toJsonPointer,
+} from "./core/path.js";
 
 export { registerStrictJson } from "./nest/register.js";
 export { StrictJsonModule } from "./nest/module.js";
 
 export { registerStrictJsonFastify } from "./adapters/fastify.js";
 export { createStrictJsonExpressMiddleware } from "./adapters/express.js";
+export { createProblemResponse } from "./adapters/error-response.js";
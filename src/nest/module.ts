@@ -7,6 +7,8 @@ import {
 } from "@nestjs/common";
 import type { INestApplication } from "@nestjs/common";
 import type { StrictJsonOptions } from "../core/types.js";
+import { resolveStrictJsonOptions } from "../core/options.js";
+import { checkKeyPolicy } from "../core/policy-lint.js";
 import { registerStrictJson } from "./register.js";
 
 export const STRICT_JSON_OPTIONS = Symbol("STRICT_JSON_OPTIONS");
@@ -24,12 +26,15 @@ export class StrictJsonModule implements OnApplicationBootstrap {
   ) {}
 
   public static forRoot(options?: StrictJsonOptions): DynamicModule {
+    // Fails at module import rather than when the app bootstraps
+    const resolved = resolveStrictJsonOptions(options);
+    checkKeyPolicy(resolved);
     return {
       module: StrictJsonModule,
       providers: [
         {
           provide: STRICT_JSON_OPTIONS,
-          useValue: options,
+          useValue: resolved,
         },
       ],
       exports: [STRICT_JSON_OPTIONS],
@@ -0,0 +1,141 @@
+import { EventEmitter } from "node:events";
+import type { IncomingMessage } from "node:http";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  ParseTimeoutError,
+  StreamingJsonParser,
+  parseStrictJson,
+  parseStrictJsonAsync,
+  streamJsonItems,
+} from "../src/index.js";
+import { StrictJsonTokenizer } from "../src/core/tokenizer.js";
+import { abortOnDisconnect } from "../src/adapters/disconnect.js";
+
+// Array of `count` numbers, one value per item plus the array itself
+const numbers = (count: number) => `[${Array.from({ length: count }, (_, i) => i).join(",")}]`;
+
+describe("Time budget and cancellation", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("stops once the time budget is spent", () => {
+    // Every clock read advances 10ms
+    let now = 0;
+    vi.spyOn(Date, "now").mockImplementation(() => (now += 10));
+
+    expect(parseStrictJson(numbers(1000), { timeBudgetMs: 15, enableCache: false })).toHaveLength(
+      1000,
+    );
+
+    now = 0;
+    let error: unknown;
+    try {
+      parseStrictJson(numbers(5000), { timeBudgetMs: 15, enableCache: false });
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(ParseTimeoutError);
+    expect((error as ParseTimeoutError).details).toMatchObject({
+      code: "STRICT_JSON_TIMEOUT",
+      limit: 15,
+    });
+  });
+
+  it("checks the signal while the document is scanned", () => {
+    const controller = new AbortController();
+    const tokenizer = new StrictJsonTokenizer(
+      { signal: controller.signal },
+      {
+        onEvent: (type, event) => {
+          if (type === "value" && event.value === 10) controller.abort();
+        },
+      },
+    );
+
+    expect(() => tokenizer.parse(Buffer.from(numbers(5000)))).toThrow(ParseTimeoutError);
+  });
+
+  it("rejects before parsing when the signal is already aborted", async () => {
+    const onTimeout = vi.fn();
+    const onError = vi.fn();
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      parseStrictJsonAsync('{"a":1}', {
+        signal: controller.signal,
+        enableCache: false,
+        onTimeout,
+        onError,
+      }),
+    ).rejects.toThrow("JSON parsing was aborted");
+    expect(onTimeout).toHaveBeenCalledTimes(1);
+    expect(onTimeout.mock.calls[0][0]).toBeInstanceOf(ParseTimeoutError);
+    expect(onError).toHaveBeenCalledTimes(1);
+  });
+
+  it("stops a stream as soon as the signal is aborted", async () => {
+    const controller = new AbortController();
+    const parser = new StreamingJsonParser({ signal: controller.signal });
+    const failure = new Promise((resolve) => parser.on("error", resolve));
+    parser.write('{"items":[1,2,');
+    controller.abort();
+
+    expect(await failure).toBeInstanceOf(ParseTimeoutError);
+  });
+
+  it("applies the signal to the whole document when extracting items", async () => {
+    const controller = new AbortController();
+    const chunks = async function* () {
+      yield Buffer.from('{"records":[{"id":1},');
+      controller.abort();
+      yield Buffer.from('{"id":2}]}');
+    };
+    const items: unknown[] = [];
+
+    await expect(
+      (async () => {
+        for await (const item of streamJsonItems(chunks(), "$.records[*]", {
+          signal: controller.signal,
+        })) {
+          items.push(item);
+        }
+      })(),
+    ).rejects.toThrow(ParseTimeoutError);
+    expect(items).toEqual([{ id: 1 }]);
+  });
+});
+
+describe("abortOnDisconnect", () => {
+  const fakeRequest = (complete: boolean) => {
+    const socket = Object.assign(new EventEmitter(), { destroyed: false });
+    const req = Object.assign(new EventEmitter(), { complete, socket });
+    return { req, socket, incoming: req as unknown as IncomingMessage };
+  };
+
+  it("aborts when the client goes away before the body is read", () => {
+    const { req, incoming } = fakeRequest(false);
+    const { options } = abortOnDisconnect(incoming, { maxDepth: 5 });
+    req.emit("close");
+
+    expect(options.signal?.aborted).toBe(true);
+    expect(options.maxDepth).toBe(5);
+  });
+
+  it("ignores the close that follows a fully read body", () => {
+    const { req, socket, incoming } = fakeRequest(true);
+    const { options, dispose } = abortOnDisconnect(incoming);
+    req.emit("close");
+    expect(options.signal?.aborted).toBe(false);
+
+    // A closed connection still aborts, until parsing is done
+    socket.destroyed = true;
+    socket.emit("close");
+    expect(options.signal?.aborted).toBe(true);
+
+    dispose();
+    expect(socket.listenerCount("close")).toBe(0);
+    expect(req.listenerCount("close")).toBe(0);
+  });
+});
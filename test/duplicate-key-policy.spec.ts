@@ -0,0 +1,110 @@
+import { describe, it, expect, vi } from "vitest";
+import { parseStrictJson, parseStrictJsonAsync, DuplicateKeyError } from "../src/index.js";
+
+describe("Duplicate key policy", () => {
+  const json = '{"id":1,"tags":["a"],"id":2,"tags":"b","id":3}';
+
+  it("should reject duplicates by default", () => {
+    expect(() => parseStrictJson(json)).toThrow(DuplicateKeyError);
+    expect(() => parseStrictJson(json, { duplicateKeyPolicy: "reject" })).toThrow(DuplicateKeyError);
+  });
+
+  it("should keep the first value with first-wins", () => {
+    expect(parseStrictJson(json, { duplicateKeyPolicy: "first-wins" })).toEqual({
+      id: 1,
+      tags: ["a"],
+    });
+  });
+
+  it("should keep the last value with last-wins, like JSON.parse", () => {
+    const result = parseStrictJson(json, { duplicateKeyPolicy: "last-wins" });
+    expect(result).toEqual(JSON.parse(json));
+    expect(Object.keys(result as object)).toEqual(["id", "tags"]);
+  });
+
+  it("should gather repeated values into an array with collect", () => {
+    expect(parseStrictJson(json, { duplicateKeyPolicy: "collect" })).toEqual({
+      id: [1, 2, 3],
+      tags: [["a"], "b"],
+    });
+  });
+
+  it("should leave non-repeated keys untouched with collect", () => {
+    expect(
+      parseStrictJson('{"a":1,"b":{"c":2,"c":{"d":3}}}', { duplicateKeyPolicy: "collect" }),
+    ).toEqual({ a: 1, b: { c: [2, { d: 3 }] } });
+  });
+
+  it("should still validate values that are dropped by first-wins", () => {
+    expect(() =>
+      parseStrictJson('{"a":1,"a":{"b":1,"b":2}}', { duplicateKeyPolicy: "first-wins" }),
+    ).not.toThrow();
+    expect(() =>
+      parseStrictJson('{"a":1,"a":{"__proto__":{}}}', { duplicateKeyPolicy: "first-wins" }),
+    ).toThrow("Prototype pollution");
+  });
+
+  it("should tolerate duplicates on allow-listed paths only", () => {
+    const options = { duplicateKeyAllowList: ["trace", "*.trace"], enableCache: false };
+
+    expect(parseStrictJson('{"trace":"a","trace":"b"}', options)).toEqual({ trace: "b" });
+    expect(parseStrictJson('{"span":{"trace":"a","trace":"b"}}', options)).toEqual({
+      span: { trace: "b" },
+    });
+    expect(parseStrictJson('{"items":[{"trace":1,"trace":2}]}', options)).toEqual({
+      items: [{ trace: 2 }],
+    });
+    expect(() => parseStrictJson('{"id":1,"id":2}', options)).toThrow(DuplicateKeyError);
+  });
+
+  it("should match array items with a \"*\" segment of the allow list", () => {
+    const json = '{"x":[{"trace":1,"trace":2}],"y":[[{"trace":1,"trace":2}]]}';
+    const expected = { x: [{ trace: 2 }], y: [[{ trace: 2 }]] };
+
+    for (const duplicateKeyAllowList of [["x.*.trace", "y.*.*.trace"], ["x[*].trace", "y[*][*].trace"]]) {
+      expect(parseStrictJson(json, { duplicateKeyAllowList, enableCache: false })).toEqual(expected);
+    }
+    expect(() =>
+      parseStrictJson('{"x":[{"id":1,"id":2}]}', { duplicateKeyAllowList: ["x.*.trace"], enableCache: false }),
+    ).toThrow(DuplicateKeyError);
+    expect(() =>
+      parseStrictJson('{"x":[{"trace":1,"trace":2}]}', { duplicateKeyAllowList: ["x.1.trace"], enableCache: false }),
+    ).toThrow(DuplicateKeyError);
+  });
+
+  it("should emit a warning for every tolerated duplicate", () => {
+    const onDuplicateKeyWarning = vi.fn();
+    const onDuplicateKey = vi.fn();
+    const onError = vi.fn();
+    const options = {
+      duplicateKeyPolicy: "last-wins" as const,
+      onDuplicateKeyWarning,
+      onDuplicateKey,
+      onError,
+    };
+
+    parseStrictJson('{"a":1,"a":2,"b":{"c":1,"c":2}}', options);
+    // Results with warnings are not served from cache
+    parseStrictJson('{"a":1,"a":2,"b":{"c":1,"c":2}}', options);
+
+    expect(onDuplicateKeyWarning).toHaveBeenCalledTimes(4);
+    const warning = onDuplicateKeyWarning.mock.calls[1][0] as DuplicateKeyError;
+    expect(warning).toBeInstanceOf(DuplicateKeyError);
+    expect(warning.details.path).toBe("$.b.c");
+    expect(onDuplicateKey).not.toHaveBeenCalled();
+    expect(onError).not.toHaveBeenCalled();
+  });
+
+  it("should await async warning handlers in parseStrictJsonAsync", async () => {
+    const seen: string[] = [];
+    await parseStrictJsonAsync('{"a":1,"a":2}', {
+      duplicateKeyPolicy: "collect",
+      onDuplicateKeyWarning: async (error) => {
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        seen.push((error as DuplicateKeyError).details.key ?? "");
+      },
+    });
+
+    expect(seen).toEqual(["a"]);
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { parseJsonStream, type StrictJsonError } from "../src/index.js";
+import { Readable } from "node:stream";
+import { failWith } from "./helpers.js";
+
+const excerptOf = (json: string, options = {}) =>
+  failWith(json, { includeExcerpt: true, ...options }).details.excerpt;
+
+describe("Error excerpts", () => {
+  it("points at the repeated key of a duplicate key error", () => {
+    expect(excerptOf('{"flag":true,"flag":false}')).toBe(
+      '{"flag":true,"flag":false}\n             ^',
+    );
+  });
+
+  it("points at the offending token of a syntax error", () => {
+    expect(excerptOf('{"a" 1}')).toBe('{"a" 1}\n     ^');
+    expect(excerptOf('{"a":1')).toBe('{"a":1\n      ^');
+  });
+
+  it("shows only the line of the token", () => {
+    expect(excerptOf('{\n  "a": 1,\n  "b" 2\n}')).toBe('  "b" 2\n      ^');
+  });
+
+  it("truncates long lines on both sides", () => {
+    const excerpt = excerptOf(`{"a":"${"x".repeat(100)}" "b":"${"y".repeat(100)}"}`);
+    const [source, caret] = (excerpt ?? "").split("\n");
+    expect(source).toBe(`...${"x".repeat(22)}" "b":"${"y".repeat(20)}...`);
+    expect(caret).toBe(`${" ".repeat(27)}^`);
+  });
+
+  it("escapes control characters and keeps the caret aligned", () => {
+    expect(excerptOf('{"a":"tab\there"}')).toBe('{"a":"tab\\there"}\n         ^');
+    expect(excerptOf('{"a":"line\nbreak"}')).toBe('{"a":"line\\n\n          ^');
+  });
+
+  it("counts multi-byte characters as one column", () => {
+    expect(excerptOf('{"é😀":1,"é😀":2}')).toBe('{"é😀":1,"é😀":2}\n        ^');
+  });
+
+  it("is only added when enabled and only to syntax and duplicate key errors", () => {
+    expect(excerptOf('{"a":1,"a":2}', { includeExcerpt: false })).toBeUndefined();
+    expect(excerptOf("[[1]]", { maxDepth: 1 })).toBeUndefined();
+  });
+
+  it("is added to streamed documents", async () => {
+    const stream = Readable.from([Buffer.from('{"items":[1,2],'), Buffer.from('"items":[]}')]);
+    const error = await parseJsonStream(stream, { includeExcerpt: true }).catch(
+      (e: StrictJsonError) => e,
+    );
+    expect((error as StrictJsonError).details.excerpt).toBe('"items":[]}\n^');
+  });
+});
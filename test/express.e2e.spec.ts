@@ -10,6 +10,7 @@ import { NestFactory } from "@nestjs/core";
 import { ExpressAdapter } from "@nestjs/platform-express";
 import express from "express";
 import { registerStrictJson } from "../src/nest/register.js";
+import { BodyTooLargeError, DuplicateKeyError } from "../src/index.js";
 
 @Controller()
 class TestController {
@@ -84,6 +85,294 @@ describe("Express E2E", () => {
     expect(res.status).toBe(400);
     expect(await res.json()).toMatchObject({
       code: "STRICT_JSON_INVALID_JSON",
+      syntaxError: "PropertyNameExpected",
+      position: 1,
+      line: 1,
+      column: 2,
+    });
+  });
+});
+
+describe("Express E2E (streaming)", () => {
+  let app: INestApplication;
+  let url: string;
+  const reported: unknown[] = [];
+
+  beforeAll(async () => {
+    app = await NestFactory.create(
+      TestModule,
+      new ExpressAdapter(express()),
+      {
+        bodyParser: false,
+        logger: false,
+      },
+    );
+
+    registerStrictJson(app as never, {
+      enableStreaming: true,
+      streamingThreshold: 0,
+      maxBodySizeBytes: 1024,
+      maxDepth: 3,
+      onDuplicateKey: (error) => reported.push(["onDuplicateKey", error]),
+      onBodyTooLarge: (error) => reported.push(["onBodyTooLarge", error]),
+    });
+
+    await app.listen(0);
+    const addr = app.getHttpServer().address();
+    url = `http://localhost:${
+      typeof addr === "string" ? addr : addr.port
+    }`;
+  });
+
+  afterAll(async () => {
+    if (app) {
+      await app.close();
+    }
+  });
+
+  it("accepts valid JSON", async () => {
+    const res = await fetch(url + "/test", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ items: [{ id: 1 }, { id: 2 }] }),
+    });
+    expect(res.status).toBe(201);
+    expect(await res.json()).toEqual({ received: { items: [{ id: 1 }, { id: 2 }] } });
+  });
+
+  it("rejects escaped duplicate keys with 400", async () => {
+    const res = await fetch(url + "/test", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: '{"a":1,"\\u0061":2}',
+    });
+    expect(res.status).toBe(400);
+    expect(await res.json()).toMatchObject({
+      code: "STRICT_JSON_DUPLICATE_KEY",
+      path: "$.a",
+    });
+    expect(reported.at(-1)).toEqual(["onDuplicateKey", expect.any(DuplicateKeyError)]);
+  });
+
+  it("reports depth violations with their code and location", async () => {
+    const res = await fetch(url + "/test", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: '{"a":{"b":{"c":{"d":1}}}}',
+    });
+    expect(res.status).toBe(400);
+    expect(await res.json()).toMatchObject({
+      code: "STRICT_JSON_DEPTH_LIMIT",
+      path: "$.a.b.c.d",
+      position: 20,
+    });
+  });
+
+  it("rejects bodies over the size limit with 413", async () => {
+    const res = await fetch(url + "/test", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ data: "x".repeat(2048) }),
+    });
+    expect(res.status).toBe(413);
+    expect(await res.json()).toMatchObject({
+      code: "STRICT_JSON_BODY_TOO_LARGE",
+    });
+    expect(reported.at(-1)).toEqual(["onBodyTooLarge", expect.any(BodyTooLargeError)]);
+  });
+});
+
+describe("Express E2E (problem+json)", () => {
+  let app: INestApplication;
+  let url: string;
+
+  beforeAll(async () => {
+    app = await NestFactory.create(
+      TestModule,
+      new ExpressAdapter(express()),
+      {
+        bodyParser: false,
+        logger: false,
+      },
+    );
+
+    registerStrictJson(app as never, {
+      errorFormat: "problem+json",
+      maxBodySizeBytes: 64,
+    });
+
+    await app.listen(0);
+    const addr = app.getHttpServer().address();
+    url = `http://localhost:${
+      typeof addr === "string" ? addr : addr.port
+    }`;
+  });
+
+  afterAll(async () => {
+    if (app) {
+      await app.close();
+    }
+  });
+
+  it("renders duplicate keys as problem details", async () => {
+    const res = await fetch(url + "/test", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: '{"flag":true,"flag":false}',
+    });
+    expect(res.status).toBe(400);
+    expect(res.headers.get("content-type")).toMatch(/^application\/problem\+json/);
+    expect(await res.json()).toEqual({
+      type: "https://github.com/pas7-studio/nestjs-strict-json/blob/main/docs/errors.md#strict_json_duplicate_key",
+      title: "Duplicate JSON key",
+      status: 400,
+      detail: 'Duplicate JSON key "flag" at $.flag',
+      instance: "/test",
+      code: "STRICT_JSON_DUPLICATE_KEY",
+      path: "$.flag",
+      pointer: "/flag",
+      key: "flag",
+      position: 13,
+      line: 1,
+      column: 14,
+    });
+  });
+
+  it("renders oversized bodies as problem details with 413", async () => {
+    const res = await fetch(url + "/test", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ payload: "x".repeat(200) }),
+    });
+    expect(res.status).toBe(413);
+    expect(res.headers.get("content-type")).toMatch(/^application\/problem\+json/);
+    expect(await res.json()).toMatchObject({
+      title: "Request body too large",
+      status: 413,
+      code: "STRICT_JSON_BODY_TOO_LARGE",
+      instance: "/test",
+    });
+  });
+});
+
+describe("Express E2E (errorResponseFormatter)", () => {
+  let app: INestApplication;
+  let url: string;
+
+  beforeAll(async () => {
+    app = await NestFactory.create(
+      TestModule,
+      new ExpressAdapter(express()),
+      {
+        bodyParser: false,
+        logger: false,
+      },
+    );
+
+    registerStrictJson(app as never, {
+      maxBodySizeBytes: 64,
+      errorResponseFormatter: (error, req) => ({
+        status: error.details.code === "STRICT_JSON_BODY_TOO_LARGE" ? 413 : 422,
+        headers: { "x-request-id": String(req.headers["x-request-id"]) },
+        body: {
+          requestId: req.headers["x-request-id"],
+          errors: [{ code: error.details.code, path: error.details.path }],
+        },
+      }),
+    });
+
+    await app.listen(0);
+    const addr = app.getHttpServer().address();
+    url = `http://localhost:${
+      typeof addr === "string" ? addr : addr.port
+    }`;
+  });
+
+  afterAll(async () => {
+    if (app) {
+      await app.close();
+    }
+  });
+
+  it("sends the formatted response for parse errors", async () => {
+    const res = await fetch(url + "/test", {
+      method: "POST",
+      headers: { "content-type": "application/json", "x-request-id": "req-1" },
+      body: '{"flag":true,"flag":false}',
+    });
+    expect(res.status).toBe(422);
+    expect(res.headers.get("x-request-id")).toBe("req-1");
+    expect(res.headers.get("content-type")).toMatch(/^application\/json/);
+    expect(await res.json()).toEqual({
+      requestId: "req-1",
+      errors: [{ code: "STRICT_JSON_DUPLICATE_KEY", path: "$.flag" }],
+    });
+  });
+
+  it("sends the formatted response for oversized bodies", async () => {
+    const res = await fetch(url + "/test", {
+      method: "POST",
+      headers: { "content-type": "application/json", "x-request-id": "req-2" },
+      body: JSON.stringify({ payload: "x".repeat(200) }),
+    });
+    expect(res.status).toBe(413);
+    expect(await res.json()).toEqual({
+      requestId: "req-2",
+      errors: [{ code: "STRICT_JSON_BODY_TOO_LARGE" }],
+    });
+  });
+});
+
+describe("Express E2E (localized messages)", () => {
+  let app: INestApplication;
+  let url: string;
+
+  beforeAll(async () => {
+    app = await NestFactory.create(
+      TestModule,
+      new ExpressAdapter(express()),
+      {
+        bodyParser: false,
+        logger: false,
+      },
+    );
+
+    registerStrictJson(app as never, { localeFromAcceptLanguage: true });
+
+    await app.listen(0);
+    const addr = app.getHttpServer().address();
+    url = `http://localhost:${
+      typeof addr === "string" ? addr : addr.port
+    }`;
+  });
+
+  afterAll(async () => {
+    if (app) {
+      await app.close();
+    }
+  });
+
+  it("answers in the language of Accept-Language", async () => {
+    const res = await fetch(url + "/test", {
+      method: "POST",
+      headers: { "content-type": "application/json", "accept-language": "de-DE,de;q=0.9,en;q=0.5" },
+      body: '{"flag":true,"flag":false}',
+    });
+    expect(res.status).toBe(400);
+    expect(await res.json()).toMatchObject({
+      code: "STRICT_JSON_DUPLICATE_KEY",
+      message: 'Doppelter JSON-Schlüssel "flag" bei $.flag',
+    });
+  });
+
+  it("answers in English without a matching language", async () => {
+    const res = await fetch(url + "/test", {
+      method: "POST",
+      headers: { "content-type": "application/json", "accept-language": "ja" },
+      body: '{"flag":true,"flag":false}',
+    });
+    expect(await res.json()).toMatchObject({
+      message: 'Duplicate JSON key "flag" at $.flag',
     });
   });
 });
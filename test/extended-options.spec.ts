@@ -1,5 +1,13 @@
-import { describe, it, expect } from "vitest";
-import { parseStrictJson, DepthLimitError, InvalidJsonError } from "../src/index.js";
+import { describe, it, expect, vi } from "vitest";
+import {
+  parseStrictJson,
+  DepthLimitError,
+  DuplicateKeyError,
+  KeyNotAllowedError,
+  PrototypePollutionError,
+  StrictJsonError,
+} from "../src/index.js";
+import { failWith } from "./helpers.js";
 
 describe("Extended Configuration Options", () => {
   describe("Whitelist", () => {
@@ -19,7 +27,7 @@ describe("Extended Configuration Options", () => {
 
       expect(() => parseStrictJson(json, {
         whitelist: ["user.*"]
-      })).toThrow(InvalidJsonError);
+      })).toThrow(KeyNotAllowedError);
     });
 
     it("should support exact match in whitelist", () => {
@@ -56,7 +64,7 @@ describe("Extended Configuration Options", () => {
 
       expect(() => parseStrictJson(json, {
         blacklist: ["password"]
-      })).toThrow(InvalidJsonError);
+      })).toThrow(KeyNotAllowedError);
     });
 
     it("should allow keys not in blacklist", () => {
@@ -75,7 +83,7 @@ describe("Extended Configuration Options", () => {
 
       expect(() => parseStrictJson(json, {
         blacklist: ["*.password"]
-      })).toThrow(InvalidJsonError);
+      })).toThrow(KeyNotAllowedError);
     });
 
     it("should reject nested keys matching blacklist patterns", () => {
@@ -83,7 +91,7 @@ describe("Extended Configuration Options", () => {
 
       expect(() => parseStrictJson(json, {
         blacklist: ["password"]
-      })).toThrow(InvalidJsonError);
+      })).toThrow(KeyNotAllowedError);
     });
   });
 
@@ -95,7 +103,7 @@ describe("Extended Configuration Options", () => {
       expect(() => parseStrictJson(json, {
         whitelist: ["user.name"],
         blacklist: ["*.password"]
-      })).toThrow(InvalidJsonError);
+      })).toThrow(KeyNotAllowedError);
     });
 
     it("should allow keys in whitelist but not in blacklist", () => {
@@ -172,6 +180,48 @@ describe("Extended Configuration Options", () => {
     });
   });
 
+  describe("Key policy errors", () => {
+    it("should report the blacklist rule that matched", () => {
+      const error = failWith('{"user":{"password":"x"}}', { blacklist: ["*.password"] });
+
+      expect(error).toBeInstanceOf(KeyNotAllowedError);
+      expect(error.details).toMatchObject({
+        code: "STRICT_JSON_KEY_NOT_ALLOWED",
+        key: "password",
+        path: "$.user.password",
+        pointer: "/user/password",
+        policy: "blacklist",
+        rule: "*.password",
+        position: 9,
+      });
+    });
+
+    it("should report keys missing from the whitelist", () => {
+      const error = failWith('{"user":{"name":"x"},"admin":true}', { whitelist: ["user.*"] });
+
+      expect(error).toBeInstanceOf(KeyNotAllowedError);
+      expect(error.details).toMatchObject({ key: "admin", path: "$.admin", policy: "whitelist" });
+      expect(error.details.rule).toBeUndefined();
+    });
+
+    it("should invoke onKeyNotAllowed and onDepthLimit instead of onInvalidJson", () => {
+      const onKeyNotAllowed = vi.fn();
+      const onDepthLimit = vi.fn();
+      const onInvalidJson = vi.fn();
+      const options = { blacklist: ["secret"], maxDepth: 1, onKeyNotAllowed, onDepthLimit, onInvalidJson };
+
+      failWith('{"secret":1}', options);
+      failWith('{"a":{"b":{}}}', options);
+      failWith('{"a":', options);
+
+      expect(onKeyNotAllowed).toHaveBeenCalledTimes(1);
+      expect(onKeyNotAllowed.mock.calls[0][0]).toBeInstanceOf(KeyNotAllowedError);
+      expect(onDepthLimit).toHaveBeenCalledTimes(1);
+      expect(onDepthLimit.mock.calls[0][0]).toBeInstanceOf(DepthLimitError);
+      expect(onInvalidJson).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe("Complex scenarios", () => {
     it("should handle arrays with whitelist and blacklist", () => {
       const json = '{"users": [{"name": "John", "password": "secret"}, {"name": "Jane", "email": "jane@example.com"}]}';
@@ -179,7 +229,7 @@ describe("Extended Configuration Options", () => {
       expect(() => parseStrictJson(json, {
         whitelist: ["users.*.name"],
         blacklist: ["*.password"]
-      })).toThrow(InvalidJsonError);
+      })).toThrow(KeyNotAllowedError);
     });
 
     it("should validate nested objects with multiple patterns", () => {
@@ -193,7 +243,7 @@ describe("Extended Configuration Options", () => {
       expect(() => parseStrictJson(json, {
         whitelist: ["data.user.*"],
         blacklist: ["*.email"]
-      })).toThrow(InvalidJsonError);
+      })).toThrow(KeyNotAllowedError);
     });
 
     it("should work with empty whitelist (allow nothing)", () => {
@@ -201,7 +251,7 @@ describe("Extended Configuration Options", () => {
 
       expect(() => parseStrictJson(json, {
         whitelist: []
-      })).toThrow(InvalidJsonError);
+      })).toThrow(KeyNotAllowedError);
     });
 
     it("should work with empty blacklist (allow everything)", () => {
@@ -250,6 +300,57 @@ describe("Extended Configuration Options", () => {
     });
   });
 
+  describe("collectAllViolations", () => {
+    it("should report every violation in one error", () => {
+      const error = failWith(
+        '{"a":1,"a":2,"user":{"__proto__":{},"password":"x"},"deep":{"l2":{"l3":{"l4":1}}}}',
+        { collectAllViolations: true, blacklist: ["*.password"], maxDepth: 3 }
+      );
+
+      expect(error).toBeInstanceOf(DuplicateKeyError);
+      expect(error.details.violations?.map((v) => v.code)).toEqual([
+        "STRICT_JSON_DUPLICATE_KEY",
+        "STRICT_JSON_PROTOTYPE_POLLUTION",
+        "STRICT_JSON_KEY_NOT_ALLOWED",
+        "STRICT_JSON_DEPTH_LIMIT",
+      ]);
+      expect(error.details.violations?.[2].message).toContain("$.user.password");
+    });
+
+    it("should report a depth breach once per subtree", () => {
+      const error = failWith('{"a":[[[1,2,3]]],"b":[[[4]]]}', { collectAllViolations: true, maxDepth: 2 });
+
+      expect(error).toBeInstanceOf(DepthLimitError);
+      expect(error.details.violations).toHaveLength(2);
+    });
+
+    it("should stop at maxViolations", () => {
+      const keys = Array.from({ length: 10 }, () => '"k":1').join(",");
+      const error = failWith(`{${keys}}`, { collectAllViolations: true, maxViolations: 3 });
+
+      expect(error.details.violations).toHaveLength(3);
+    });
+
+    it("should append a trailing syntax error to collected violations", () => {
+      const error = failWith('{"a":1,"a":2,', { collectAllViolations: true });
+
+      expect(error).toBeInstanceOf(DuplicateKeyError);
+      expect(error.details.violations?.map((v) => v.code)).toEqual([
+        "STRICT_JSON_DUPLICATE_KEY",
+        "STRICT_JSON_INVALID_JSON",
+      ]);
+    });
+
+    it("should not attach a list when the option is disabled", () => {
+      expect(() => parseStrictJson('{"__proto__":1,"a":1,"a":2}')).toThrow(PrototypePollutionError);
+      try {
+        parseStrictJson('{"a":1,"a":2,"b":1,"b":2}');
+      } catch (error) {
+        expect((error as StrictJsonError).details.violations).toBeUndefined();
+      }
+    });
+  });
+
   describe("Edge cases", () => {
     it("should handle empty JSON", () => {
       const json = '{}';
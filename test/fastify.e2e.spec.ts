@@ -95,3 +95,186 @@ describe("Fastify E2E", () => {
     });
   });
 });
+
+describe("Fastify E2E (problem+json)", () => {
+  let app: INestApplication;
+  let url: string;
+
+  beforeAll(async () => {
+    app = await NestFactory.create(TestModule, new FastifyAdapter(), {
+      bodyParser: false,
+      logger: false,
+    });
+
+    registerStrictJson(app as never, {
+      errorFormat: "problem+json",
+      maxBodySizeBytes: 64,
+    });
+
+    await app.listen(0);
+    const addr = app.getHttpServer().address();
+    url = `http://localhost:${
+      typeof addr === "string" ? addr : addr.port
+    }`;
+  });
+
+  afterAll(async () => {
+    if (app) {
+      await app.close();
+    }
+  });
+
+  it("renders duplicate keys as problem details", async () => {
+    const res = await fetch(url + "/test", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: '{"flag":true,"flag":false}',
+    });
+    expect(res.status).toBe(400);
+    expect(res.headers.get("content-type")).toMatch(/^application\/problem\+json/);
+    expect(await res.json()).toEqual({
+      type: "https://github.com/pas7-studio/nestjs-strict-json/blob/main/docs/errors.md#strict_json_duplicate_key",
+      title: "Duplicate JSON key",
+      status: 400,
+      detail: 'Duplicate JSON key "flag" at $.flag',
+      instance: "/test",
+      code: "STRICT_JSON_DUPLICATE_KEY",
+      path: "$.flag",
+      pointer: "/flag",
+      key: "flag",
+      position: 13,
+      line: 1,
+      column: 14,
+    });
+  });
+
+  it("renders oversized bodies as problem details with 413", async () => {
+    const res = await fetch(url + "/test", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ payload: "x".repeat(200) }),
+    });
+    expect(res.status).toBe(413);
+    expect(res.headers.get("content-type")).toMatch(/^application\/problem\+json/);
+    expect(await res.json()).toMatchObject({
+      title: "Request body too large",
+      status: 413,
+      code: "STRICT_JSON_BODY_TOO_LARGE",
+      instance: "/test",
+    });
+  });
+});
+
+describe("Fastify E2E (errorResponseFormatter)", () => {
+  let app: INestApplication;
+  let url: string;
+
+  beforeAll(async () => {
+    app = await NestFactory.create(TestModule, new FastifyAdapter(), {
+      bodyParser: false,
+      logger: false,
+    });
+
+    registerStrictJson(app as never, {
+      maxBodySizeBytes: 64,
+      errorResponseFormatter: (error, req) => ({
+        status: error.details.code === "STRICT_JSON_BODY_TOO_LARGE" ? 413 : 422,
+        headers: { "x-request-id": String(req.headers["x-request-id"]) },
+        body: {
+          requestId: req.headers["x-request-id"],
+          errors: [{ code: error.details.code, path: error.details.path }],
+        },
+      }),
+    });
+
+    await app.listen(0);
+    const addr = app.getHttpServer().address();
+    url = `http://localhost:${
+      typeof addr === "string" ? addr : addr.port
+    }`;
+  });
+
+  afterAll(async () => {
+    if (app) {
+      await app.close();
+    }
+  });
+
+  it("sends the formatted response for parse errors", async () => {
+    const res = await fetch(url + "/test", {
+      method: "POST",
+      headers: { "content-type": "application/json", "x-request-id": "req-1" },
+      body: '{"flag":true,"flag":false}',
+    });
+    expect(res.status).toBe(422);
+    expect(res.headers.get("x-request-id")).toBe("req-1");
+    expect(res.headers.get("content-type")).toMatch(/^application\/json/);
+    expect(await res.json()).toEqual({
+      requestId: "req-1",
+      errors: [{ code: "STRICT_JSON_DUPLICATE_KEY", path: "$.flag" }],
+    });
+  });
+
+  it("sends the formatted response for oversized bodies", async () => {
+    const res = await fetch(url + "/test", {
+      method: "POST",
+      headers: { "content-type": "application/json", "x-request-id": "req-2" },
+      body: JSON.stringify({ payload: "x".repeat(200) }),
+    });
+    expect(res.status).toBe(413);
+    expect(await res.json()).toEqual({
+      requestId: "req-2",
+      errors: [{ code: "STRICT_JSON_BODY_TOO_LARGE" }],
+    });
+  });
+});
+
+describe("Fastify E2E (localized messages)", () => {
+  let app: INestApplication;
+  let url: string;
+
+  beforeAll(async () => {
+    app = await NestFactory.create(TestModule, new FastifyAdapter(), {
+      bodyParser: false,
+      logger: false,
+    });
+
+    registerStrictJson(app as never, { localeFromAcceptLanguage: true });
+
+    await app.listen(0);
+    const addr = app.getHttpServer().address();
+    url = `http://localhost:${
+      typeof addr === "string" ? addr : addr.port
+    }`;
+  });
+
+  afterAll(async () => {
+    if (app) {
+      await app.close();
+    }
+  });
+
+  it("answers in the language of Accept-Language", async () => {
+    const res = await fetch(url + "/test", {
+      method: "POST",
+      headers: { "content-type": "application/json", "accept-language": "de-DE,de;q=0.9,en;q=0.5" },
+      body: '{"flag":true,"flag":false}',
+    });
+    expect(res.status).toBe(400);
+    expect(await res.json()).toMatchObject({
+      code: "STRICT_JSON_DUPLICATE_KEY",
+      message: 'Doppelter JSON-Schlüssel "flag" bei $.flag',
+    });
+  });
+
+  it("answers in English without a matching language", async () => {
+    const res = await fetch(url + "/test", {
+      method: "POST",
+      headers: { "content-type": "application/json", "accept-language": "ja" },
+      body: '{"flag":true,"flag":false}',
+    });
+    expect(await res.json()).toMatchObject({
+      message: 'Duplicate JSON key "flag" at $.flag',
+    });
+  });
+});
@@ -1,4 +1,4 @@
-import { BadRequestException, PayloadTooLargeException } from "@nestjs/common";
+import { BadRequestException, HttpException, PayloadTooLargeException } from "@nestjs/common";
 import { describe, expect, it } from "vitest";
 import {
   type FastifyLikeInstance,
@@ -69,4 +69,119 @@ describe("registerStrictJsonFastify", () => {
       code: "STRICT_JSON_BODY_TOO_LARGE",
     });
   });
+
+  it("renders collected violations in the 400 payload", () => {
+    let parser:
+      | ((
+          req: unknown,
+          body: string | Buffer,
+          done: (err: Error | null, value?: unknown) => void,
+        ) => void)
+      | undefined;
+
+    const instance: FastifyLikeInstance = {
+      addContentTypeParser: (_contentType, _opts, p) => {
+        parser = p;
+      },
+    };
+
+    registerStrictJsonFastify(instance, { collectAllViolations: true });
+
+    const doneCalls: Array<{ err: Error | null; value?: unknown }> = [];
+    parser?.({}, Buffer.from('{"a":1,"a":2,"b":{"__proto__":{}}}'), (err, value) => {
+      doneCalls.push({ err, value });
+    });
+
+    const err = doneCalls[0]?.err as BadRequestException;
+    expect(err.getStatus()).toBe(400);
+    expect(err.getResponse()).toMatchObject({
+      code: "STRICT_JSON_DUPLICATE_KEY",
+      violations: [
+        { code: "STRICT_JSON_DUPLICATE_KEY", path: "$.a" },
+        { code: "STRICT_JSON_PROTOTYPE_POLLUTION", path: "$.b.__proto__" },
+      ],
+    });
+  });
+
+  it("replaces the error body with problem details when problem+json is enabled", async () => {
+    let parser:
+      | ((
+          req: unknown,
+          body: string | Buffer,
+          done: (err: Error | null, value?: unknown) => void,
+        ) => void)
+      | undefined;
+    let onSend: Parameters<NonNullable<FastifyLikeInstance["addHook"]>>[1] | undefined;
+
+    const instance: FastifyLikeInstance = {
+      addContentTypeParser: (_contentType, _opts, p) => {
+        parser = p;
+      },
+      addHook: (_name, hook) => {
+        onSend = hook;
+      },
+    };
+
+    registerStrictJsonFastify(instance, {
+      errorFormat: "problem+json",
+      problemTypeBaseUri: "https://errors.example.com/json",
+    });
+
+    const request = { url: "/orders" };
+    const doneCalls: Array<{ err: Error | null; value?: unknown }> = [];
+    parser?.(request, Buffer.from('{"a":1,"a":2}'), (err, value) => {
+      doneCalls.push({ err, value });
+    });
+
+    const err = doneCalls[0]?.err as HttpException;
+    expect(err.getStatus()).toBe(400);
+
+    const headers: Record<string, string> = {};
+    const reply = { header: (name: string, value: string) => (headers[name] = value) };
+    const payload = await onSend?.(request, reply, '{"statusCode":400}');
+
+    expect(headers["content-type"]).toBe("application/problem+json; charset=utf-8");
+    expect(JSON.parse(payload as string)).toMatchObject({
+      type: "https://errors.example.com/json#strict_json_duplicate_key",
+      title: "Duplicate JSON key",
+      status: 400,
+      instance: "/orders",
+      code: "STRICT_JSON_DUPLICATE_KEY",
+      path: "$.a",
+      key: "a",
+    });
+
+    // Responses of other requests are left alone
+    expect(await onSend?.({ url: "/other" }, reply, "{}")).toBe("{}");
+  });
+
+  it("passes errors thrown by errorResponseFormatter to Fastify", () => {
+    let parser:
+      | ((
+          req: unknown,
+          body: string | Buffer,
+          done: (err: Error | null, value?: unknown) => void,
+        ) => void)
+      | undefined;
+
+    const instance: FastifyLikeInstance = {
+      addContentTypeParser: (_contentType, _opts, p) => {
+        parser = p;
+      },
+    };
+
+    const failure = new Error("formatter failed");
+    registerStrictJsonFastify(instance, {
+      errorResponseFormatter: () => {
+        throw failure;
+      },
+    });
+
+    const doneCalls: Array<{ err: Error | null; value?: unknown }> = [];
+    parser?.({}, Buffer.from("{invalid}"), (err, value) => {
+      doneCalls.push({ err, value });
+    });
+
+    expect(doneCalls[0]?.err).toBe(failure);
+  });
 });
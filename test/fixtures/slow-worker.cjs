@@ -0,0 +1,8 @@
+// Parse worker stand-in that answers every payload after 200ms
+const { parentPort } = require("node:worker_threads");
+
+parentPort.on("message", ({ id, buf }) => {
+  setTimeout(() => {
+    parentPort.postMessage({ id, value: Buffer.from(buf).toString("utf8"), warnings: [] });
+  }, 200);
+});
@@ -0,0 +1,24 @@
+// Parse worker loading the TypeScript sources, so the tests run the worker
+// of src/ without a build: each .ts file is transpiled on require
+const { readFileSync } = require("node:fs");
+const Module = require("node:module");
+const ts = require("typescript");
+
+// The sources import each other with ".js" specifiers
+const resolveFilename = Module._resolveFilename;
+Module._resolveFilename = function (request, parent, ...rest) {
+  if (request.startsWith(".") && request.endsWith(".js") && parent?.filename?.endsWith(".ts")) {
+    return resolveFilename.call(this, request.replace(/\.js$/, ".ts"), parent, ...rest);
+  }
+  return resolveFilename.call(this, request, parent, ...rest);
+};
+
+require.extensions[".ts"] = (module, filename) => {
+  const { outputText } = ts.transpileModule(readFileSync(filename, "utf8"), {
+    fileName: filename,
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2021 },
+  });
+  module._compile(outputText, filename);
+};
+
+require("../../src/core/parse-worker.ts");
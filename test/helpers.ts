@@ -0,0 +1,24 @@
+import { parseStrictJson, type StrictJsonError, type StrictJsonOptions } from "../src/index.js";
+
+/**
+ * Parses a document that must be rejected, with the parse cache off
+ * @returns The error thrown by parseStrictJson
+ */
+export const failWith = (json: string, options: StrictJsonOptions = {}): StrictJsonError => {
+  try {
+    parseStrictJson(json, { enableCache: false, ...options });
+  } catch (error) {
+    return error as StrictJsonError;
+  }
+  throw new Error("Expected a strict JSON error");
+};
+
+/**
+ * Reads every item of an async iterable (streamJsonItems, StreamingJsonParser)
+ * @returns The items, in order
+ */
+export const collectItems = async (iterator: AsyncIterable<unknown>): Promise<unknown[]> => {
+  const items: unknown[] = [];
+  for await (const item of iterator) items.push(item);
+  return items;
+};
@@ -0,0 +1,180 @@
+import { describe, expect, it } from "vitest";
+import {
+  compileKeyPolicy,
+  parseKeyPattern,
+  parseStrictJson,
+  InvalidJsonError,
+  KeyNotAllowedError,
+} from "../src/index.js";
+import { failWith } from "./helpers.js";
+
+const check = (key: string, whitelist?: string[], blacklist?: string[]) =>
+  compileKeyPolicy(whitelist, blacklist, "pattern")(key);
+
+describe("key policy pattern language", () => {
+  it("matches one segment with * and any number of segments with **", () => {
+    expect(check("$.user.name", ["user.*"])).toBeNull();
+    expect(check("$.user.profile.age", ["user.*"])).toEqual({ policy: "whitelist" });
+    expect(check("$.user.profile.age", ["user.**"])).toBeNull();
+    expect(check("$.password", undefined, ["**.password"])).toEqual({
+      policy: "blacklist",
+      rule: "**.password",
+    });
+    expect(check("$.a.b[2].password", undefined, ["**.password"])).not.toBeNull();
+    expect(check("$.a.password", undefined, ["password"])).toBeNull();
+  });
+
+  it("distinguishes array items, indices and quoted keys", () => {
+    const whitelist = ["users[*].id", "users[0].admin", 'meta["a.b"]', "$.raw\\.key"];
+
+    expect(check("$.users[3].id", whitelist)).toBeNull();
+    expect(check("$.users[0].admin", whitelist)).toBeNull();
+    expect(check("$.users[1].admin", whitelist)).toEqual({ policy: "whitelist" });
+    expect(check('$.meta["a.b"]', whitelist)).toBeNull();
+    expect(check("$.meta.a.b", whitelist)).toEqual({ policy: "whitelist" });
+    expect(check('$["raw.key"]', whitelist)).toBeNull();
+  });
+
+  it("matches keys with re: segments", () => {
+    const blacklist = ["**.re:/^(password|secret)$/i"];
+
+    expect(check("$.user.Password", undefined, blacklist)).toEqual({
+      policy: "blacklist",
+      rule: blacklist[0],
+    });
+    expect(check("$.user.passwords", undefined, blacklist)).toBeNull();
+  });
+
+  it("allows the parents of whitelisted keys", () => {
+    expect(check("$.data", ["data.users[*].name"])).toBeNull();
+    expect(check("$.data.users", ["data.users[*].name"])).toBeNull();
+    expect(check("$.data.users[0].email", ["data.users[*].name"])).toEqual({ policy: "whitelist" });
+  });
+
+  it("allows keys as parents through \"**\" only when their values are containers", () => {
+    const options = { whitelist: ["**.id"], keyPolicySyntax: "pattern" as const, enableCache: false };
+
+    expect(failWith('{"secret":1,"id":2}', options).details).toMatchObject({
+      path: "$.secret",
+      policy: "whitelist",
+    });
+    expect(failWith('{"a":{"id":1,"token":"x"}}', options).details.path).toBe("$.a.token");
+    expect(parseStrictJson('{"id":1,"a":{"b":[{"id":2}]}}', options)).toEqual({
+      id: 1,
+      a: { b: [{ id: 2 }] },
+    });
+    expect(
+      failWith('{"secret":"x"}', { ...options, explainKeyDecisions: true }).details.explanation,
+    ).toMatchObject({ allowed: false, reason: "not-whitelisted" });
+
+    // Segments before the "**" are parents whatever their values
+    expect(parseStrictJson('{"data":null}', { ...options, whitelist: ["data.**.id"] })).toEqual({
+      data: null,
+    });
+    expect(() =>
+      parseStrictJson('{"data":{"x":1}}', { ...options, whitelist: ["data.**.id"] }),
+    ).toThrow(KeyNotAllowedError);
+    expect(check("$.secret", ["**.id"])).toBeNull();
+  });
+
+  it("lets the most specific rule decide, with deny winning ties", () => {
+    const whitelist = ["user.**", "!user.password"];
+    const blacklist = ["**.token", "!session.token"];
+
+    expect(check("$.user.name", whitelist)).toBeNull();
+    expect(check("$.user.password", whitelist)).toEqual({
+      policy: "whitelist",
+      rule: "!user.password",
+    });
+    expect(check("$.session.token", undefined, blacklist)).toBeNull();
+    expect(check("$.user.token", whitelist, blacklist)).toEqual({
+      policy: "blacklist",
+      rule: "**.token",
+    });
+    expect(check("$.user.email", ["user.*"], ["*.email"])).toEqual({
+      policy: "blacklist",
+      rule: "*.email",
+    });
+    expect(check("$.user.email", ["user.email"], ["*.email"])).toBeNull();
+    expect(check("$.user.password", ["user.**"], ["**.re:/^password$/"])).toEqual({
+      policy: "blacklist",
+      rule: "**.re:/^password$/",
+    });
+  });
+
+  it("parses patterns with their specificity", () => {
+    expect(parseKeyPattern("!$.a.*[*].**").negated).toBe(true);
+    expect(parseKeyPattern("a.*[*].**").specificity).toEqual([1, 0, 2, 1]);
+    expect(parseKeyPattern("a\\*").steps).toEqual([{ kind: "key", name: "a*" }]);
+  });
+
+  it("rejects malformed patterns", () => {
+    for (const pattern of ["", "a..b", "a.", "user*", "a[x]", 'a["b]', "re:/(/", "re:/a/g", "a\\"]) {
+      expect(() => parseKeyPattern(pattern), pattern).toThrow(/Invalid key pattern/);
+    }
+  });
+
+  it("throws malformed patterns instead of reporting invalid JSON", () => {
+    const error = failWith('{"a": 1}', {
+      whitelist: ["a..b"],
+      keyPolicySyntax: "pattern",
+      enableCache: false,
+    });
+
+    expect(error).toBeInstanceOf(Error);
+    expect(error).not.toBeInstanceOf(InvalidJsonError);
+  });
+
+  it("enforces the policy while parsing", () => {
+    const options = {
+      whitelist: ["user.**", "!user.internal"],
+      blacklist: ["**.password"],
+      keyPolicySyntax: "pattern" as const,
+      enableCache: false,
+    };
+
+    expect(parseStrictJson('{"user": {"name": "a", "tags": [1]}}', options)).toEqual({
+      user: { name: "a", tags: [1] },
+    });
+    expect(() => parseStrictJson('{"user": {"internal": 1}}', options)).toThrow(KeyNotAllowedError);
+    expect(failWith('{"user": {"profile": {"password": "x"}}}', options).details).toMatchObject({
+      path: "$.user.profile.password",
+      policy: "blacklist",
+      rule: "**.password",
+    });
+  });
+
+  it("decides keys in arrays, quoted keys and re: segments while parsing", () => {
+    const options = {
+      whitelist: ["items[*].id", "items[0].meta.**", 'cfg["a.b"]', "re:/^x-/.*"],
+      keyPolicySyntax: "pattern" as const,
+      enableCache: false,
+    };
+    const json = JSON.stringify({
+      items: [{ id: 1, meta: { deep: { tag: "a" } } }, { id: 2 }],
+      cfg: { "a.b": true },
+      "x-trace": { span: 1 },
+    });
+
+    expect(parseStrictJson(json, options)).toEqual(JSON.parse(json));
+    for (const [input, path] of [
+      ['{"items": [{"id": 1}, {"meta": {}}]}', "$.items[1].meta"],
+      ['{"cfg": {"a": {"b": 1}}}', "$.cfg.a"],
+      ['{"y-trace": {"span": 1}}', "$.y-trace"],
+    ]) {
+      expect(failWith(input, options).details.path).toBe(path);
+      expect(check(path, options.whitelist)).toEqual({ policy: "whitelist" });
+    }
+  });
+
+  it("keeps the legacy globs unless keyPolicySyntax is \"pattern\"", () => {
+    const json = '{"user": {"data": {"password": "secret"}}}';
+
+    expect(() => parseStrictJson(json, { blacklist: ["password"], enableCache: false })).toThrow(
+      KeyNotAllowedError,
+    );
+    expect(
+      parseStrictJson(json, { blacklist: ["password"], keyPolicySyntax: "pattern", enableCache: false }),
+    ).toEqual(JSON.parse(json));
+  });
+});
@@ -0,0 +1,146 @@
+import { BadRequestException } from "@nestjs/common";
+import { describe, expect, it } from "vitest";
+import {
+  explainKeyDecision,
+  registerStrictJsonFastify,
+  type StrictJsonError,
+} from "../src/index.js";
+import type { FastifyLikeInstance } from "../src/adapters/fastify.js";
+import { failWith } from "./helpers.js";
+
+describe("explainKeyDecision", () => {
+  const options = {
+    keyPolicySyntax: "pattern" as const,
+    whitelist: ["user.**", "!user.internal"],
+    blacklist: ["**.password", "!user.password"],
+  };
+
+  it("names the most specific rule and every matching rule", () => {
+    expect(explainKeyDecision("$.user.internal", options)).toEqual({
+      path: "$.user.internal",
+      syntax: "pattern",
+      allowed: false,
+      reason: "most-specific-rule",
+      policy: "whitelist",
+      rule: "!user.internal",
+      matches: [
+        { policy: "whitelist", rule: "user.**", allows: true },
+        { policy: "whitelist", rule: "!user.internal", allows: false },
+      ],
+    });
+    expect(explainKeyDecision("$.user.password", options)).toMatchObject({
+      allowed: true,
+      reason: "most-specific-rule",
+      policy: "blacklist",
+      rule: "!user.password",
+    });
+  });
+
+  it("reports ties, parents and unmatched keys", () => {
+    expect(explainKeyDecision("$.user.a.password", options)).toMatchObject({
+      allowed: false,
+      reason: "deny-wins-tie",
+      rule: "**.password",
+    });
+    expect(explainKeyDecision("$.data", { ...options, whitelist: ["data.items[*].id"] })).toMatchObject({
+      allowed: true,
+      reason: "parent-of-whitelisted",
+      rule: "data.items[*].id",
+    });
+    expect(explainKeyDecision("$.a.b", { ...options, whitelist: ["**.id"] })).toMatchObject({
+      allowed: true,
+      reason: "container-of-whitelisted",
+      rule: "**.id",
+    });
+    expect(explainKeyDecision("$.admin", options)).toMatchObject({
+      allowed: false,
+      reason: "not-whitelisted",
+      policy: "whitelist",
+      matches: [],
+    });
+    expect(explainKeyDecision("$.a", { ...options, whitelist: undefined, blacklist: ["b"] }).reason).toBe("not-blacklisted");
+    expect(explainKeyDecision("$.a").reason).toBe("no-policy");
+  });
+
+  it("names the special case of the legacy globs", () => {
+    const legacy = { keyPolicySyntax: "legacy" as const };
+
+    expect(
+      explainKeyDecision("$.a.b.password", { ...legacy, blacklist: ["password"] }),
+    ).toMatchObject({ allowed: false, reason: "blacklist-key-name", rule: "password" });
+    expect(
+      explainKeyDecision("$.user.password", { ...legacy, whitelist: ["user"], blacklist: ["*.password"] }),
+    ).toMatchObject({ allowed: false, reason: "not-whitelisted" });
+    expect(
+      explainKeyDecision("$.data.x", { ...legacy, whitelist: ["data.**.name"] }),
+    ).toMatchObject({ allowed: true, reason: "whitelist-wildcard-prefix", rule: "data.**.name" });
+    expect(
+      explainKeyDecision("$.user", { ...legacy, whitelist: ["user"], blacklist: ["user"] }),
+    ).toMatchObject({
+      allowed: true,
+      reason: "literal-whitelist-overrides-blacklist",
+      rule: "user",
+      matches: [
+        { policy: "whitelist", rule: "user", allows: true },
+        { policy: "blacklist", rule: "user", allows: false },
+      ],
+    });
+  });
+});
+
+describe("explainKeyDecisions", () => {
+  it("attaches the explanation to rejected keys", () => {
+    const error = failWith('{"user": {"a": {"password": 1}}}', {
+      whitelist: ["user.**"],
+      blacklist: ["**.password"],
+      keyPolicySyntax: "pattern",
+      explainKeyDecisions: true,
+    });
+
+    expect(error.details.explanation).toMatchObject({
+      path: "$.user.a.password",
+      allowed: false,
+      reason: "deny-wins-tie",
+    });
+    expect(failWith('{"x": 1}', { whitelist: ["user"] }).details.explanation).toBeUndefined();
+  });
+
+  it("masks sensitive keys in the explanation", () => {
+    const error = failWith('{"apiToken": 1}', {
+      blacklist: ["apiToken"],
+      sensitiveKeys: ["*token"],
+      explainKeyDecisions: true,
+    });
+
+    expect(error.details.explanation?.path).toBe("$.***");
+  });
+
+  it("keeps the explanation out of responses", () => {
+    let parser: Parameters<FastifyLikeInstance["addContentTypeParser"]>[2] | undefined;
+    const instance: FastifyLikeInstance = {
+      addContentTypeParser: (_contentType, _opts, p) => {
+        parser = p;
+      },
+    };
+    const reported: StrictJsonError[] = [];
+    registerStrictJsonFastify(instance, {
+      blacklist: ["secret", "token"],
+      explainKeyDecisions: true,
+      collectAllViolations: true,
+      onKeyNotAllowed: (error) => {
+        reported.push(error as StrictJsonError);
+      },
+    });
+
+    let err: Error | null = null;
+    parser?.({}, Buffer.from('{"secret": 1, "token": 2}'), (e) => {
+      err = e;
+    });
+
+    expect(err).toBeInstanceOf(BadRequestException);
+    const response = (err as unknown as BadRequestException).getResponse();
+    expect(response).toMatchObject({ violations: [{ key: "secret" }, { key: "token" }] });
+    expect(JSON.stringify(response)).not.toContain("explanation");
+    expect(reported[0]?.details.explanation?.rule).toBe("secret");
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import {
+  formatErrorMessage,
+  getMessageLocales,
+  localizeError,
+  negotiateLocale,
+  registerMessageCatalog,
+} from "../src/index.js";
+import { failWith } from "./helpers.js";
+
+describe("Message catalogs", () => {
+  it("throws English messages built from the catalog", () => {
+    expect(failWith('{"a":1,"a":2}').message).toBe('Duplicate JSON key "a" at $.a');
+    expect(failWith('{"a" 1}').message).toBe("Invalid JSON: colon expected at line 1, column 6");
+    expect(failWith('{"a":1}', { maxBodySizeBytes: 2 }).message).toBe(
+      "Request body exceeds max size of 2 bytes",
+    );
+  });
+
+  it("renders messages in the built-in locales", () => {
+    const error = failWith('{"a":1,"a":2}');
+    expect(formatErrorMessage(error.details, "de")).toBe('Doppelter JSON-Schlüssel "a" bei $.a');
+    expect(formatErrorMessage(error.details, "fr")).toBe('Clé JSON en double "a" à $.a');
+    expect(formatErrorMessage(error.details, "es")).toBe('Clave JSON duplicada "a" en $.a');
+
+    const syntax = failWith('{"a" 1}');
+    expect(formatErrorMessage(syntax.details, "de")).toBe(
+      "Ungültiges JSON: Doppelpunkt erwartet in Zeile 1, Spalte 6",
+    );
+  });
+
+  it("falls back from regional tags to the language, then to English", () => {
+    const error = failWith('{"a":1,"a":2}');
+    expect(formatErrorMessage(error.details, "de-AT")).toBe('Doppelter JSON-Schlüssel "a" bei $.a');
+    expect(formatErrorMessage(error.details, "ja")).toBe('Duplicate JSON key "a" at $.a');
+  });
+
+  it("merges registered catalogs and falls back to English for missing codes", () => {
+    registerMessageCatalog("pl", {
+      STRICT_JSON_DUPLICATE_KEY: (d) => `Zduplikowany klucz JSON "${d.key}" w ${d.path}`,
+    });
+    expect(getMessageLocales()).toContain("pl");
+
+    expect(formatErrorMessage(failWith('{"a":1,"a":2}').details, "pl-PL")).toBe(
+      'Zduplikowany klucz JSON "a" w $.a',
+    );
+    expect(formatErrorMessage(failWith("[[1]]", { maxDepth: 1 }).details, "pl")).toBe(
+      "JSON depth limit exceeded: 2 > 1",
+    );
+  });
+
+  it("localizes an error and its collected violations", () => {
+    const error = failWith('{"a":1,"a":2,"__proto__":{}}', { collectAllViolations: true });
+    localizeError(error, "fr");
+
+    expect(error.message).toBe('Clé JSON en double "a" à $.a');
+    expect(error.details.message).toBe(error.message);
+    expect(error.details.violations?.map((violation) => violation.message)).toEqual([
+      'Clé JSON en double "a" à $.a',
+      "Tentative de pollution de prototype détectée : clé dangereuse '__proto__' à $.__proto__",
+    ]);
+  });
+});
+
+describe("negotiateLocale", () => {
+  it("picks the preferred registered locale", () => {
+    expect(negotiateLocale("fr-CH, fr;q=0.9, en;q=0.8")).toBe("fr");
+    expect(negotiateLocale("ja, es;q=0.5, de;q=0.7")).toBe("de");
+  });
+
+  it("skips excluded ranges and falls back when nothing matches", () => {
+    expect(negotiateLocale("de;q=0, es")).toBe("es");
+    expect(negotiateLocale("ja, *;q=0.1", "de")).toBe("de");
+    expect(negotiateLocale(undefined, "fr")).toBe("fr");
+    expect(negotiateLocale("")).toBe("en");
+  });
+});
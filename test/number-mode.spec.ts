@@ -0,0 +1,123 @@
+import { describe, it, expect, vi } from "vitest";
+import { parseStrictJson, UnsafeNumberError } from "../src/index.js";
+import { isLosslessNumber } from "../src/core/numbers.js";
+
+describe("Number mode", () => {
+  const json = '{"id":9007199254740993,"amount":0.12345678901234567890,"small":42,"ratio":0.5}';
+
+  it("should convert like JSON.parse by default", () => {
+    expect(parseStrictJson(json)).toEqual(JSON.parse(json));
+  });
+
+  it("should reject unsafe numbers with their path", () => {
+    try {
+      parseStrictJson(json, { numberMode: "reject" });
+      expect.fail("Should have thrown UnsafeNumberError");
+    } catch (error) {
+      expect(error).toBeInstanceOf(UnsafeNumberError);
+      const { details } = error as UnsafeNumberError;
+      expect(details).toMatchObject({
+        code: "STRICT_JSON_UNSAFE_NUMBER",
+        path: "$.id",
+        pointer: "/id",
+        numberLiteral: "9007199254740993",
+        position: 6,
+      });
+    }
+  });
+
+  it("should materialize large integers as bigint", () => {
+    const result = parseStrictJson('{"ids":[9007199254740993,-18446744073709551615,7]}', {
+      numberMode: "bigint",
+    });
+    expect(result).toEqual({
+      ids: [9007199254740993n, -18446744073709551615n, 7],
+    });
+  });
+
+  it("should judge exponent literals by their value", () => {
+    for (const literal of ["1e20", "1.5e300", "-2E+17"]) {
+      expect(() => parseStrictJson(`[${literal}]`, { numberMode: "reject" }), literal).toThrow(
+        UnsafeNumberError,
+      );
+    }
+    expect(parseStrictJson("[1e15, 2.5e3, 1e-7]", { numberMode: "reject" })).toEqual([1e15, 2500, 1e-7]);
+    expect(parseStrictJson('{"n":1e20,"m":1.5e300}', { numberMode: "bigint" })).toEqual({
+      n: 10n ** 20n,
+      m: 15n * 10n ** 299n,
+    });
+    expect(parseStrictJson("[1e20]", { numberMode: "string" })).toEqual(["1e20"]);
+  });
+
+  it("should reject high-precision decimals in bigint mode", () => {
+    expect(() =>
+      parseStrictJson('{"amount":0.12345678901234567890}', { numberMode: "bigint" }),
+    ).toThrow(UnsafeNumberError);
+  });
+
+  it("should keep the original literal in string mode", () => {
+    expect(parseStrictJson(json, { numberMode: "string" })).toEqual({
+      id: "9007199254740993",
+      amount: "0.12345678901234567890",
+      small: 42,
+      ratio: 0.5,
+    });
+  });
+
+  it("should apply the mode only to matching paths", () => {
+    const payload = '{"ledger":{"id":9007199254740993},"score":9007199254740993}';
+    const result = parseStrictJson(payload, {
+      numberMode: "string",
+      numberModePaths: ["ledger.*"],
+    });
+    expect(result).toEqual({ ledger: { id: "9007199254740993" }, score: 9007199254740992 });
+  });
+
+  it("should bypass the JSON.parse fast path when numbers must be preserved", () => {
+    expect(
+      parseStrictJson('{"id":12345678901234567890}', { numberMode: "string", enableFastPath: true }),
+    ).toEqual({ id: "12345678901234567890" });
+  });
+
+  it("should call onError for unsafe numbers", () => {
+    const onError = vi.fn();
+    expect(() =>
+      parseStrictJson("[1e400]", { numberMode: "reject", onError }),
+    ).toThrow(UnsafeNumberError);
+    expect(onError).toHaveBeenCalledWith(expect.any(UnsafeNumberError));
+  });
+});
+
+describe("isLosslessNumber", () => {
+  it.each([
+    ["0", true],
+    ["-0", true],
+    ["9007199254740991", true],
+    ["-9007199254740991", true],
+    ["0.1", true],
+    ["1.0", true],
+    ["120.50", true],
+    ["1e15", true],
+    ["9.007199254740991e15", true],
+    ["1.5E-7", true],
+    ["123456789.123456", true],
+  ])("accepts %s", (literal, expected) => {
+    expect(isLosslessNumber(literal, !/[.eE]/.test(literal))).toBe(expected);
+  });
+
+  it.each([
+    "9007199254740992",
+    "-9007199254740993",
+    "12345678901234567890",
+    "0.12345678901234567890",
+    "1.00000000000000001",
+    "1e400",
+    "1e-400",
+    "1e20",
+    "1e21",
+    "1.5e300",
+    "100000000000000000000.0",
+  ])("rejects %s", (literal) => {
+    expect(isLosslessNumber(literal, !/[.eE]/.test(literal))).toBe(false);
+  });
+});
@@ -0,0 +1,172 @@
+import { Readable } from "node:stream";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  StreamingJsonParser,
+  StrictJsonConfigurationError,
+  StrictJsonModule,
+  createStrictJsonExpressMiddleware,
+  parseJsonStream,
+  parseStrictJson,
+  parseStrictJsonAsync,
+  registerStrictJsonFastify,
+  resolveStrictJsonOptions,
+  streamJsonItems,
+  type StrictJsonOptions,
+} from "../src/index.js";
+import type { FastifyLikeInstance } from "../src/adapters/fastify.js";
+
+const issuesOf = (options: unknown) => {
+  try {
+    resolveStrictJsonOptions(options as StrictJsonOptions);
+  } catch (error) {
+    return (error as StrictJsonConfigurationError).issues;
+  }
+  throw new Error("Expected a configuration error");
+};
+
+describe("resolveStrictJsonOptions", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("fills in the defaults once and freezes the result", () => {
+    const options = { maxDepth: 5, whitelist: ["user.*"] };
+    const resolved = resolveStrictJsonOptions(options);
+
+    expect(resolved).toMatchObject({
+      maxDepth: 5,
+      whitelist: ["user.*"],
+      enablePrototypePollutionProtection: true,
+      dangerousKeys: ["__proto__", "constructor", "prototype"],
+      lazyModeDepthLimit: 10,
+      cacheSize: 1000,
+      duplicateKeyPolicy: "reject",
+    });
+    expect(Object.isFrozen(resolved)).toBe(true);
+    expect(resolveStrictJsonOptions(options)).toBe(resolved);
+    expect(resolveStrictJsonOptions(resolved)).toBe(resolved);
+    expect(resolveStrictJsonOptions()).toBe(resolveStrictJsonOptions());
+  });
+
+  it("resolves an options object again once its properties change", () => {
+    const options: StrictJsonOptions = { maxDepth: 10, enableCache: false };
+    const json = '{"a":{"b":{"c":1}}}';
+    const resolved = resolveStrictJsonOptions(options);
+    expect(parseStrictJson(json, options)).toEqual({ a: { b: { c: 1 } } });
+
+    options.maxDepth = 2;
+    expect(resolveStrictJsonOptions(options)).not.toBe(resolved);
+    expect(resolveStrictJsonOptions(options).maxDepth).toBe(2);
+    expect(() => parseStrictJson(json, options)).toThrow(/depth/i);
+
+    options.maxDepth = -1;
+    expect(() => parseStrictJson(json, options)).toThrow(StrictJsonConfigurationError);
+
+    delete options.maxDepth;
+    expect(resolveStrictJsonOptions(options).maxDepth).toBe(20);
+  });
+
+  it("keeps defaults for options set to undefined", () => {
+    expect(resolveStrictJsonOptions({ maxDepth: undefined }).maxDepth).toBe(20);
+  });
+
+  it("reports every invalid value", () => {
+    expect(
+      issuesOf({ maxDepth: -1, cacheSize: 0, numberMode: "exact", whitelist: "user.*" }),
+    ).toEqual([
+      { code: "INVALID_OPTION", message: '"maxDepth" must be an integer >= 0 (got -1)' },
+      {
+        code: "INVALID_OPTION",
+        message:
+          '"cacheSize" must be an integer >= 1; use enableCache: false to disable the cache (got 0)',
+      },
+      {
+        code: "INVALID_OPTION",
+        message: '"numberMode" must be one of "native", "reject", "bigint", "string" (got "exact")',
+      },
+      { code: "INVALID_OPTION", message: '"whitelist" must be an array of strings (got "user.*")' },
+    ]);
+    expect(() => resolveStrictJsonOptions({ timeBudgetMs: 0 })).toThrow(
+      'Invalid strict JSON options:\n- "timeBudgetMs" must be a positive number of milliseconds (got 0)',
+    );
+  });
+
+  it("rejects conflicting options", () => {
+    expect(issuesOf({ maxDepth: 5, lazyModeDepthLimit: 8 })).toEqual([
+      {
+        code: "CONFLICTING_OPTIONS",
+        message:
+          '"lazyModeDepthLimit" (8) is larger than "maxDepth" (5) and has no effect: lazy mode limits the depth to the smaller of the two',
+      },
+    ]);
+    expect(issuesOf({ lazyModeDepthLimit: 30 })[0].code).toBe("CONFLICTING_OPTIONS");
+    expect(issuesOf({ lazyMode: true, enableFastPath: true })[0].code).toBe("CONFLICTING_OPTIONS");
+    // The default lazy limit only applies up to maxDepth
+    expect(() => resolveStrictJsonOptions({ maxDepth: 3 })).not.toThrow();
+  });
+
+  it("rejects malformed whitelist/blacklist patterns", () => {
+    expect(issuesOf({ keyPolicySyntax: "pattern", blacklist: ["pass*"] })).toMatchObject([
+      { code: "MALFORMED_PATTERN", message: expect.stringContaining('Invalid key pattern "pass*"') },
+    ]);
+  });
+
+  it("warns about unknown options once, with the likely option", () => {
+    const warn = vi.spyOn(process, "emitWarning").mockImplementation(() => undefined);
+    const options = { maxBodySize: 1024, maxdepht: 3, foo: true } as StrictJsonOptions;
+
+    const resolved = resolveStrictJsonOptions(options);
+    resolveStrictJsonOptions(options);
+
+    expect(warn.mock.calls).toEqual([
+      [
+        'Unknown option "maxBodySize" (did you mean "maxBodySizeBytes"?)',
+        { type: "StrictJsonOptionsWarning", code: "STRICT_JSON_UNKNOWN_OPTION" },
+      ],
+      [
+        'Unknown option "maxdepht" (did you mean "maxDepth"?)',
+        { type: "StrictJsonOptionsWarning", code: "STRICT_JSON_UNKNOWN_OPTION" },
+      ],
+      ['Unknown option "foo"', { type: "StrictJsonOptionsWarning", code: "STRICT_JSON_UNKNOWN_OPTION" }],
+    ]);
+    expect(resolved.maxDepth).toBe(20);
+  });
+});
+
+describe("options validation at the entry points", () => {
+  const invalid = { maxDepth: -1 };
+  const fastify = (): FastifyLikeInstance => ({ addContentTypeParser: vi.fn() });
+
+  it("throws configuration errors from the parser, not invalid JSON", async () => {
+    expect(() => parseStrictJson("{}", invalid)).toThrow(StrictJsonConfigurationError);
+    await expect(parseStrictJsonAsync("{}", invalid)).rejects.toThrow(
+      StrictJsonConfigurationError,
+    );
+
+    const onInvalidJson = vi.fn();
+    expect(() => parseStrictJson("{", { cacheSize: 0, onInvalidJson })).toThrow(
+      StrictJsonConfigurationError,
+    );
+    expect(onInvalidJson).not.toHaveBeenCalled();
+  });
+
+  it("throws configuration errors from the streaming parsers", async () => {
+    const onError = vi.fn();
+    expect(() => new StreamingJsonParser(invalid)).toThrow(StrictJsonConfigurationError);
+    await expect(
+      parseJsonStream(Readable.from([Buffer.from("{}")]), { ...invalid, onError }),
+    ).rejects.toThrow(StrictJsonConfigurationError);
+    await expect(
+      streamJsonItems(Readable.from(["[1]"]), "$[*]", { chunkSize: 0 }).next(),
+    ).rejects.toThrow(StrictJsonConfigurationError);
+    expect(onError).not.toHaveBeenCalled();
+  });
+
+  it("throws when the adapters and the module are registered", () => {
+    expect(() => createStrictJsonExpressMiddleware(invalid)).toThrow(StrictJsonConfigurationError);
+    expect(() => registerStrictJsonFastify(fastify(), invalid)).toThrow(
+      StrictJsonConfigurationError,
+    );
+    expect(() => StrictJsonModule.forRoot(invalid)).toThrow(StrictJsonConfigurationError);
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import {
+  appendKeyToPath,
+  escapePointerSegment,
+  parseStrictJson,
+  toJsonPointer,
+  DuplicateKeyError,
+  DepthLimitError,
+  InvalidJsonError,
+  KeyNotAllowedError,
+  PrototypePollutionError,
+} from "../src/index.js";
+import { failWith } from "./helpers.js";
+
+describe("path formatting", () => {
+  it("uses dot notation for plain keys", () => {
+    expect(appendKeyToPath("$", "user")).toBe("$.user");
+    expect(appendKeyToPath("$.data", "user-name")).toBe("$.data.user-name");
+    expect(appendKeyToPath("$.data", "0")).toBe("$.data.0");
+  });
+
+  it("uses escaped bracket notation for ambiguous keys", () => {
+    expect(appendKeyToPath("$", "a.b")).toBe('$["a.b"]');
+    expect(appendKeyToPath("$", "x[0]")).toBe('$["x[0]"]');
+    expect(appendKeyToPath("$", 'say "hi"')).toBe('$["say \\"hi\\""]');
+    expect(appendKeyToPath("$", "line\nbreak")).toBe('$["line\\nbreak"]');
+    expect(appendKeyToPath("$", "")).toBe('$[""]');
+  });
+
+  it("escapes JSON Pointer reference tokens per RFC 6901", () => {
+    expect(escapePointerSegment("a/b")).toBe("a~1b");
+    expect(escapePointerSegment("m~n")).toBe("m~0n");
+    expect(escapePointerSegment("~1")).toBe("~01");
+    expect(toJsonPointer([])).toBe("");
+    expect(toJsonPointer(["a/b", 0, ""])).toBe("/a~1b/0/");
+  });
+});
+
+describe("error paths", () => {
+  it("carries both an escaped path and a JSON Pointer", () => {
+    const error = failWith('{"a/b":[{"x.y":1,"x.y":2}]}');
+
+    expect(error).toBeInstanceOf(DuplicateKeyError);
+    expect(error.details.path).toBe('$.a/b[0]["x.y"]');
+    expect(error.details.pointer).toBe("/a~1b/0/x.y");
+  });
+
+  it("distinguishes dotted keys from nested structure", () => {
+    const flat = failWith('{"a.b":{"__proto__":1}}');
+    const nested = failWith('{"a":{"b":{"__proto__":1}}}');
+
+    expect(flat).toBeInstanceOf(PrototypePollutionError);
+    expect(flat.details.path).toBe('$["a.b"].__proto__');
+    expect(flat.details.pointer).toBe("/a.b/__proto__");
+    expect(nested.details.path).toBe("$.a.b.__proto__");
+    expect(nested.details.pointer).toBe("/a/b/__proto__");
+  });
+
+  it("points depth and syntax errors at the offending value", () => {
+    const depth = failWith('{"a":[{"b":1}]}', { maxDepth: 2 });
+    expect(depth).toBeInstanceOf(DepthLimitError);
+    expect(depth.details.pointer).toBe("/a/0/b");
+
+    const syntax = failWith('{"a":[1,2}');
+    expect(syntax).toBeInstanceOf(InvalidJsonError);
+    expect(syntax.details.path).toBe("$.a");
+    expect(syntax.details.pointer).toBe("/a");
+  });
+});
+
+describe("key policy on unambiguous segments", () => {
+  it("does not let a dotted root key pass a nested whitelist", () => {
+    expect(() =>
+      parseStrictJson('{"metadata.version":1}', { whitelist: ["metadata.*"] }),
+    ).toThrow(KeyNotAllowedError);
+    expect(parseStrictJson('{"metadata":{"version":1}}', { whitelist: ["metadata.*"] })).toEqual({
+      metadata: { version: 1 },
+    });
+  });
+
+  it("matches dotted keys through their quoted form", () => {
+    expect(() =>
+      parseStrictJson('{"metadata.version":1}', { blacklist: ['["metadata.version"]'] }),
+    ).toThrow(KeyNotAllowedError);
+    expect(
+      parseStrictJson('{"metadata.version":1}', { whitelist: ['["metadata.version"]'] }),
+    ).toEqual({ "metadata.version": 1 });
+  });
+
+  it("does not read bracketed keys as array indices", () => {
+    expect(() =>
+      parseStrictJson('{"users[0]":{"password":"x"}}', { whitelist: ["users[*].*"] }),
+    ).toThrow(KeyNotAllowedError);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import {
+  compileKeyPolicy,
+  createPathMatcher,
+  findKeyPolicyViolation,
+  globToRegex,
+  matchGlobPattern,
+  parseStrictJson,
+  KeyNotAllowedError,
+} from "../src/index.js";
+import { compileGlob, getKeyPolicy } from "../src/core/pattern-matcher.js";
+
+describe("compiled patterns", () => {
+  it("matches exactly what globToRegex matches", () => {
+    const patterns = ["user.*", "data.**.name", "users[*].id", "a?c", "*.secret", "x*y", "*]", "*"];
+    const keys = ["user", "user.name", "data.a.b.name", "users[*].id", "abc", "a.secret", "x.y", "xy", "]", "a\nb", ""];
+    for (const pattern of patterns) {
+      const matches = compileGlob(pattern);
+      for (const key of keys) {
+        expect(matches(key), `${pattern} ~ ${JSON.stringify(key)}`).toBe(globToRegex(pattern).test(key));
+      }
+    }
+  });
+
+  it("does not backtrack on patterns with many wildcards", () => {
+    const key = "a".repeat(20_000) + "b";
+    const start = performance.now();
+    expect(matchGlobPattern(key, "*a*a*a*a*a*c")).toBe(false);
+    expect(matchGlobPattern(key, "**a**a**a**b")).toBe(true);
+    expect(performance.now() - start).toBeLessThan(1000);
+  });
+
+  it("compiles a key policy with the whitelist/blacklist semantics", () => {
+    const policy = compileKeyPolicy(["user.*", "data.**.name", "profile"], ["*.password", "profile"]);
+
+    expect(policy("$.user")).toBeNull();
+    expect(policy("$.data")).toBeNull();
+    expect(policy("$.data.items[0].name")).toBeNull();
+    expect(policy("$.profile")).toBeNull();
+    expect(policy("$.user.password")).toEqual({ policy: "blacklist", rule: "*.password" });
+    expect(policy("$.other")).toEqual({ policy: "whitelist" });
+    expect(compileKeyPolicy([])("$.user")).toEqual({ policy: "whitelist" });
+    expect(compileKeyPolicy(undefined, ["password"])("$.a.b.password")).toEqual({
+      policy: "blacklist",
+      rule: "password",
+    });
+  });
+
+  it("compiles the policy of the same option arrays once", () => {
+    const whitelist = ["user.*"];
+    const blacklist = ["*.password"];
+
+    expect(getKeyPolicy(whitelist, blacklist)).toBe(getKeyPolicy(whitelist, blacklist));
+    expect(getKeyPolicy(whitelist)).not.toBe(getKeyPolicy(whitelist, blacklist));
+    expect(findKeyPolicyViolation("$.user.password", whitelist, blacklist)).toEqual({
+      policy: "blacklist",
+      rule: "*.password",
+    });
+  });
+
+  it("matches path patterns with or without the root prefix", () => {
+    const matches = createPathMatcher(["$.records[*]", "meta.*"]);
+
+    expect(matches("$.records[3]")).toBe(true);
+    expect(matches("$.meta.id")).toBe(true);
+    expect(matches("$.records")).toBe(false);
+  });
+
+  it("enforces a large whitelist while parsing", () => {
+    const whitelist = Array.from({ length: 40 }, (_, i) => `field${i}.*`);
+    const json = JSON.stringify({ field3: { a: 1 }, field39: { b: [1, 2] } });
+
+    expect(parseStrictJson(json, { whitelist, enableCache: false })).toEqual(JSON.parse(json));
+    expect(() => parseStrictJson('{"field40": 1}', { whitelist, enableCache: false })).toThrow(
+      KeyNotAllowedError,
+    );
+  });
+});
@@ -0,0 +1,204 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  StrictJsonConfigurationError,
+  StrictJsonModule,
+  createStrictJsonExpressMiddleware,
+  lintKeyPolicy,
+  parseKeyPattern,
+  registerStrictJsonFastify,
+} from "../src/index.js";
+import type { FastifyLikeInstance } from "../src/adapters/fastify.js";
+
+const pattern = { keyPolicySyntax: "pattern" as const };
+
+const codes = (options: object) =>
+  lintKeyPolicy({ ...pattern, ...options }).map(({ code, rule }) => [code, rule]);
+
+describe("lintKeyPolicy", () => {
+  it("finds no issues in a consistent policy", () => {
+    expect(
+      lintKeyPolicy({
+        ...pattern,
+        whitelist: ["user.**", "!user.internal"],
+        blacklist: ["**.password", "!user.password"],
+      }),
+    ).toEqual([]);
+  });
+
+  it("reports malformed and duplicate patterns", () => {
+    expect(
+      codes({ whitelist: ["user.*", "$.user.*", "user[\"name\"]"], blacklist: ["pass*", "user.secret"] }),
+    ).toEqual([
+      ["DUPLICATE_PATTERN", "$.user.*"],
+      ["MALFORMED_PATTERN", "pass*"],
+    ]);
+    expect(lintKeyPolicy({ ...pattern, blacklist: ["pass*"] })[0].message).toBe(
+      'Blacklist rule "pass*" is malformed: a wildcard spans a whole segment; escape "*" or use "re:/.../"',
+    );
+  });
+
+  it("reports whitelist rules a deny always overrides", () => {
+    expect(codes({ whitelist: ["user.password"], blacklist: ["user.password"] })).toEqual([
+      ["UNREACHABLE_WHITELIST_RULE", "user.password"],
+    ]);
+    expect(codes({ whitelist: ["user.*", "!user.*"] })).toEqual([
+      ["UNREACHABLE_WHITELIST_RULE", "user.*"],
+    ]);
+    // A more specific allow is an exception, not a conflict
+    expect(codes({ whitelist: ["user.password"], blacklist: ["**.password"] })).toEqual([]);
+  });
+
+  it("reports whitelist rules deeper than maxDepth", () => {
+    expect(codes({ whitelist: ["a.b.**.c"], maxDepth: 2 })).toEqual([
+      ["UNREACHABLE_WHITELIST_RULE", "a.b.**.c"],
+    ]);
+    expect(codes({ whitelist: ["a.b.**.c"], maxDepth: 3 })).toEqual([]);
+  });
+
+  it("reports blacklist rules a more specific allow shadows", () => {
+    expect(codes({ whitelist: ["**"], blacklist: ["**.**"] })).toEqual([
+      ["SHADOWED_BLACKLIST_RULE", "**.**"],
+    ]);
+  });
+
+  it("reports whitelisted dangerous keys", () => {
+    expect(codes({ whitelist: ["user.__proto__", "re:/^proto/", "user.name"] })).toEqual([
+      ["DANGEROUS_KEY_WHITELISTED", "user.__proto__"],
+      ["DANGEROUS_KEY_WHITELISTED", "re:/^proto/"],
+    ]);
+    expect(codes({ whitelist: ["user.__proto__"], dangerousKeys: ["$where"] })).toEqual([]);
+  });
+
+  it("lints legacy globs", () => {
+    expect(
+      codes({
+        keyPolicySyntax: "legacy",
+        whitelist: ["user", "x.constructor"],
+        blacklist: ["user.password", "*.password", "*.password"],
+      }),
+    ).toEqual([
+      ["DUPLICATE_PATTERN", "*.password"],
+      ["DANGEROUS_KEY_WHITELISTED", "x.constructor"],
+      ["SHADOWED_BLACKLIST_RULE", "user.password"],
+    ]);
+  });
+
+  it("reports legacy globs that match no key, or every key", () => {
+    const legacy = { keyPolicySyntax: "legacy" as const };
+    expect(
+      codes({ ...legacy, whitelist: ["", "a..b", "a.", "$.user", "items[x]", "items[0", 'a["b]', "a]", "**"] }),
+    ).toEqual([
+      ["MALFORMED_PATTERN", ""],
+      ["MALFORMED_PATTERN", "a..b"],
+      ["MALFORMED_PATTERN", "a."],
+      ["MALFORMED_PATTERN", "$.user"],
+      ["MALFORMED_PATTERN", "items[x]"],
+      ["MALFORMED_PATTERN", "items[0"],
+      ["MALFORMED_PATTERN", 'a["b]'],
+      ["MALFORMED_PATTERN", "a]"],
+      ["USELESS_PATTERN", "**"],
+    ]);
+    expect(codes({ ...legacy, whitelist: ["items[*].id", 'meta["a.b"]', "users[0].name", "*"] })).toEqual([
+      ["USELESS_PATTERN", "*"],
+    ]);
+    expect(() =>
+      createStrictJsonExpressMiddleware({ whitelist: ["$.user"] }),
+    ).toThrow(/Whitelist rule "\$\.user" is malformed: key paths are matched without the "\$" prefix/);
+  });
+
+  it("reports legacy whitelist globs a blacklist glob always denies", () => {
+    const legacy = { keyPolicySyntax: "legacy" as const };
+    expect(
+      codes({
+        ...legacy,
+        whitelist: ["user.*", "data.**", "items[*].id", "orders[*].id", "admin"],
+        blacklist: ["user.*", "data.*", "items[*].*", "orders.**", "admin"],
+      }),
+    ).toEqual([
+      ["UNREACHABLE_WHITELIST_RULE", "user.*"],
+      // A trailing "*" matches nested keys too
+      ["UNREACHABLE_WHITELIST_RULE", "data.**"],
+      ["UNREACHABLE_WHITELIST_RULE", "items[*].id"],
+      ["SHADOWED_BLACKLIST_RULE", "admin"],
+    ]);
+    // Literal whitelist entries override the blacklist
+    expect(codes({ ...legacy, whitelist: ["user.name"], blacklist: ["user.*"] })).toEqual([]);
+  });
+
+  it("reports legacy whitelist globs deeper than maxDepth", () => {
+    const legacy = { keyPolicySyntax: "legacy" as const };
+    expect(codes({ ...legacy, whitelist: ["a.b[*].c", 'a["x.y"]', "*.a.b.c"], maxDepth: 3 })).toEqual([
+      ["UNREACHABLE_WHITELIST_RULE", "a.b[*].c"],
+    ]);
+    expect(codes({ ...legacy, whitelist: ["a.b[*].c"] })).toEqual([]);
+  });
+
+  it("reports wildcard legacy blacklist globs a literal whitelist entry hides", () => {
+    expect(
+      codes({ keyPolicySyntax: "legacy", whitelist: ["user", "data.*"], blacklist: ["user.*", "user.**.token", "us*", "data.*.x"] }),
+    ).toEqual([
+      ["SHADOWED_BLACKLIST_RULE", "user.*"],
+      ["SHADOWED_BLACKLIST_RULE", "user.**.token"],
+    ]);
+  });
+});
+
+describe("key policy checks on registration", () => {
+  const fastify = (): FastifyLikeInstance => ({ addContentTypeParser: vi.fn() });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("emits each issue as a process warning once", () => {
+    const warn = vi.spyOn(process, "emitWarning").mockImplementation(() => undefined);
+    const options = { ...pattern, whitelist: ["user.password"], blacklist: ["user.password"] };
+
+    createStrictJsonExpressMiddleware(options);
+    registerStrictJsonFastify(fastify(), options);
+    StrictJsonModule.forRoot(options);
+
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn).toHaveBeenCalledWith(
+      'Whitelist rule "user.password" never allows a key: the blacklist rule "user.password" denies every key it matches',
+      { type: "StrictJsonPolicyWarning", code: "STRICT_JSON_UNREACHABLE_WHITELIST_RULE" },
+    );
+  });
+
+  it("throws the issues with keyPolicyLint: \"error\"", () => {
+    const options = {
+      ...pattern,
+      whitelist: ["user.password"],
+      blacklist: ["user.password"],
+      keyPolicyLint: "error" as const,
+    };
+    expect(() => createStrictJsonExpressMiddleware(options)).toThrow(StrictJsonConfigurationError);
+    try {
+      StrictJsonModule.forRoot(options);
+    } catch (error) {
+      expect((error as StrictJsonConfigurationError).issues).toMatchObject([
+        { code: "UNREACHABLE_WHITELIST_RULE", policy: "whitelist", rule: "user.password" },
+      ]);
+    }
+    expect.assertions(2);
+  });
+
+  it("always throws malformed patterns and skips checks when off", () => {
+    const warn = vi.spyOn(process, "emitWarning").mockImplementation(() => undefined);
+    expect(() => registerStrictJsonFastify(fastify(), { ...pattern, whitelist: ["re:/(/"] })).toThrow(
+      /Invalid key pattern "re:\/\(\/"/,
+    );
+    expect(() =>
+      createStrictJsonExpressMiddleware({
+        ...pattern,
+        whitelist: ["user.__proto__"],
+        keyPolicyLint: "off",
+      }),
+    ).not.toThrow();
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it("raises a configuration error for a malformed pattern", () => {
+    expect(() => parseKeyPattern("user.na*")).toThrow(StrictJsonConfigurationError);
+  });
+});
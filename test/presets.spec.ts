@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import {
+  DepthLimitError,
+  PrototypePollutionError,
+  StrictJsonConfigurationError,
+  UnsafeNumberError,
+  extendPreset,
+  parseStrictJson,
+  presets,
+  resolveStrictJsonOptions,
+} from "../src/index.js";
+
+// Arrays nested `count` times; the innermost is at depth count - 1
+const nested = (count: number) => "[".repeat(count) + "]".repeat(count);
+
+describe("presets", () => {
+  it("are valid, frozen options", () => {
+    for (const [name, options] of Object.entries(presets)) {
+      expect(() => resolveStrictJsonOptions(options), name).not.toThrow();
+      expect(Object.isFrozen(options), name).toBe(true);
+    }
+    expect(Object.isFrozen(presets)).toBe(true);
+  });
+
+  it("tighten limits from throughput to strict", () => {
+    const { strict, balanced, throughput } = presets;
+    expect(strict.maxBodySizeBytes).toBeLessThan(balanced.maxBodySizeBytes as number);
+    expect(balanced.maxBodySizeBytes).toBeLessThan(throughput.maxBodySizeBytes as number);
+    expect(strict.maxDepth).toBeLessThan(balanced.maxDepth as number);
+    expect(balanced.maxDepth).toBeLessThan(throughput.maxDepth as number);
+  });
+
+  it("keep prototype pollution protection and duplicate key rejection on", () => {
+    for (const options of Object.values(presets)) {
+      expect(options).toMatchObject({
+        enablePrototypePollutionProtection: true,
+        duplicateKeyPolicy: "reject",
+        enableFastPath: false,
+      });
+      expect(options.lazyModeSkipPrototype ?? false).toBe(false);
+    }
+  });
+
+  it("apply their limits when parsing", () => {
+    expect(() => parseStrictJson(nested(12), presets.strict)).toThrow(DepthLimitError);
+    expect(parseStrictJson(nested(12), presets.balanced)).toBeDefined();
+    expect(() => parseStrictJson("9007199254740993", presets.strict)).toThrow(UnsafeNumberError);
+    expect(() =>
+      parseStrictJson('{"a":{"__proto__":{}}}', presets.throughput),
+    ).toThrow(PrototypePollutionError);
+  });
+});
+
+describe("extendPreset", () => {
+  it("overrides preset values and returns frozen options", () => {
+    const options = extendPreset(presets.balanced, { maxDepth: 5, whitelist: ["user.*"] });
+
+    expect(options).toMatchObject({ maxDepth: 5, whitelist: ["user.*"], maxKeyLength: 256 });
+    expect(Object.isFrozen(options)).toBe(true);
+    expect(presets.balanced.maxDepth).toBe(20);
+    expect(extendPreset(options, { maxKeyLength: 64 })).toMatchObject({
+      maxDepth: 5,
+      maxKeyLength: 64,
+    });
+  });
+
+  it("removes values overridden with undefined", () => {
+    const options = extendPreset(presets.strict, { maxBodySizeBytes: undefined });
+    expect(resolveStrictJsonOptions(options).maxBodySizeBytes).toBeUndefined();
+  });
+
+  it("validates the combined options", () => {
+    expect(extendPreset(presets.throughput, { maxDepth: 10 }).maxDepth).toBe(10);
+    expect(() =>
+      extendPreset(presets.throughput, { lazyMode: true, enableFastPath: true }),
+    ).toThrow(StrictJsonConfigurationError);
+    expect(() => extendPreset(presets.strict, { cacheSize: 0 })).toThrow(
+      /"cacheSize" must be an integer >= 1/,
+    );
+  });
+});
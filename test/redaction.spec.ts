@@ -0,0 +1,139 @@
+import { BadRequestException } from "@nestjs/common";
+import { describe, expect, it } from "vitest";
+import {
+  escapeControlChars,
+  getErrorTitle,
+  registerStrictJsonFastify,
+  type StrictJsonError,
+} from "../src/index.js";
+import type { FastifyLikeInstance } from "../src/adapters/fastify.js";
+import { failWith } from "./helpers.js";
+
+describe("Redaction", () => {
+  it("escapes control characters of keys echoed in messages", () => {
+    const error = failWith('{"a\\nINFO forged":1,"a\\nINFO forged":2}');
+    expect(error.message).toBe('Duplicate JSON key "a\\nINFO forged" at $["a\\nINFO forged"]');
+    // The details keep the key as sent
+    expect(error.details.key).toBe("a\nINFO forged");
+    expect(escapeControlChars("tab\there ")).toBe("tab\\there\\u2028");
+  });
+
+  it("truncates echoed keys and number literals to maxEchoLength", () => {
+    const key = "k".repeat(50);
+    const error = failWith(`{"${key}":1,"${key}":2}`, { maxEchoLength: 8 });
+    expect(error.details).toMatchObject({
+      key: "kkkkkkkk...",
+      path: '$["kkkkkkkk..."]',
+      pointer: "/kkkkkkkk...",
+      message: 'Duplicate JSON key "kkkkkkkk..." at $["kkkkkkkk..."]',
+    });
+    expect(error.message).toBe(error.details.message);
+
+    const number = failWith(`{"n":${"9".repeat(40)}}`, { numberMode: "reject", maxEchoLength: 10 });
+    expect(number.details.numberLiteral).toBe("9999999999...");
+  });
+
+  it("limits excerpts to maxEchoLength characters around the token", () => {
+    const error = failWith(`{"a":"${"x".repeat(40)}" 1}`, { includeExcerpt: true, maxEchoLength: 10 });
+    expect(error.details.excerpt).toBe('...xxx" 1}\n        ^');
+  });
+
+  it("masks sensitive keys in keys, paths and pointers", () => {
+    const error = failWith('{"user":{"apiToken":1,"apiToken":2}}', {
+      sensitiveKeys: ["*token*", "password"],
+    });
+    expect(error.details).toMatchObject({
+      key: "***",
+      path: "$.user.***",
+      pointer: "/user/***",
+      message: 'Duplicate JSON key "***" at $.user.***',
+    });
+
+    const nested = failWith('{"Password":{"__proto__":{}}}', { sensitiveKeys: ["password"] });
+    expect(nested.details.path).toBe("$.***.__proto__");
+  });
+
+  it("redacts the public properties of the error classes", () => {
+    const options = { whitelist: ["user.name"], sensitiveKeys: ["password"] };
+    const error = failWith('{"user":{"password":"hunter2"}}', options);
+    expect(error).toMatchObject({ key: "***", path: "$.user.***" });
+    expect(JSON.stringify(error)).not.toContain("password");
+
+    const pollution = failWith('{"Password":{"__proto__":{}}}', { sensitiveKeys: ["password"] });
+    expect(JSON.stringify(pollution)).not.toMatch(/password/i);
+
+    const number = failWith(`{"n":${"9".repeat(40)}}`, { numberMode: "reject", maxEchoLength: 10 });
+    expect(number).toMatchObject({ numberLiteral: "9999999999..." });
+    expect(JSON.stringify(number)).not.toContain("9".repeat(11));
+  });
+
+  it("drops excerpts that quote a sensitive key", () => {
+    const error = failWith('{"password":"hunter2" "b":1}', {
+      includeExcerpt: true,
+      sensitiveKeys: ["password"],
+    });
+    expect(error.details.syntaxError).toBe("CommaExpected");
+    expect(error.details.excerpt).toBeUndefined();
+  });
+
+  it("omits user input from responses while handlers keep it", () => {
+    let parser: Parameters<FastifyLikeInstance["addContentTypeParser"]>[2] | undefined;
+    const instance: FastifyLikeInstance = {
+      addContentTypeParser: (_contentType, _opts, p) => {
+        parser = p;
+      },
+    };
+    const reported: StrictJsonError[] = [];
+    registerStrictJsonFastify(instance, {
+      omitInputFromResponses: true,
+      includeExcerpt: true,
+      onDuplicateKey: (error) => {
+        reported.push(error as StrictJsonError);
+      },
+    });
+
+    let err: Error | null = null;
+    parser?.({}, Buffer.from('{"<script>":1,"<script>":2}'), (e) => {
+      err = e;
+    });
+
+    expect(err).toBeInstanceOf(BadRequestException);
+    const response = (err as unknown as BadRequestException).getResponse();
+    expect(JSON.stringify(response)).not.toContain("script");
+    expect(response).toEqual({
+      code: "STRICT_JSON_DUPLICATE_KEY",
+      message: "Duplicate JSON key",
+      details: { position: 14, line: 1, column: 15 },
+    });
+
+    expect(reported[0]?.details).toMatchObject({
+      key: "<script>",
+      path: '$.<script>',
+      message: 'Duplicate JSON key "<script>" at $.<script>',
+    });
+    expect(reported[0]?.details.excerpt).toContain("<script>");
+  });
+
+  it("omits user input with the title of the response locale", () => {
+    let parser: Parameters<FastifyLikeInstance["addContentTypeParser"]>[2] | undefined;
+    const instance: FastifyLikeInstance = {
+      addContentTypeParser: (_contentType, _opts, p) => {
+        parser = p;
+      },
+    };
+    registerStrictJsonFastify(instance, { omitInputFromResponses: true, locale: "de" });
+
+    let err: Error | null = null;
+    parser?.({}, Buffer.from('{"a":1,"a":2}'), (e) => {
+      err = e;
+    });
+
+    const response = (err as unknown as BadRequestException).getResponse();
+    expect(response).toMatchObject({
+      code: "STRICT_JSON_DUPLICATE_KEY",
+      message: "Doppelter JSON-Schlüssel",
+    });
+    expect(getErrorTitle("STRICT_JSON_DUPLICATE_KEY", "de-AT")).toBe("Doppelter JSON-Schlüssel");
+    expect(getErrorTitle("STRICT_JSON_DUPLICATE_KEY", "pl")).toBe("Duplicate JSON key");
+  });
+});
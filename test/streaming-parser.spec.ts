@@ -0,0 +1,362 @@
+import { Readable } from "node:stream";
+import { describe, expect, it, vi } from "vitest";
+import {
+  ArrayLengthLimitError,
+  BodyTooLargeError,
+  DepthLimitError,
+  DuplicateKeyError,
+  InvalidJsonError,
+  KeysPerObjectLimitError,
+  PrototypePollutionError,
+  StreamingJsonParser,
+  StrictJsonError,
+  parseJsonStream,
+  parseStrictJson,
+  parseStrictJsonAsync,
+  streamJsonItems,
+} from "../src/index.js";
+import { StrictJsonTokenizer } from "../src/core/tokenizer.js";
+import { collectItems } from "./helpers.js";
+
+const toStream = (...chunks: string[]) =>
+  Readable.from(chunks.map((chunk) => Buffer.from(chunk, "utf8")));
+
+// Parses the document split into single-byte chunks
+const parseByteByByte = (json: string, options = {}) => {
+  const tokenizer = new StrictJsonTokenizer(options);
+  const buf = Buffer.from(json, "utf8");
+  for (let i = 0; i < buf.length; i++) {
+    tokenizer.write(buf.subarray(i, i + 1));
+  }
+  return tokenizer.finish();
+};
+
+const catchError = (parse: () => unknown) => {
+  try {
+    parse();
+  } catch (error) {
+    return error as StrictJsonError;
+  }
+  throw new Error("Expected a strict JSON error");
+};
+
+describe("Incremental tokenizer", () => {
+  const samples = [
+    '{"a":1,"b":[true,false,null],"c":{"d":"e"}}',
+    " [ 1 , -2.5e+3 , 0.125 , 1E2 , -0 ] ",
+    '{"unicode":"\\u00e9\\ud83d\\ude00","raw":"żółw 🐢","escapes":"\\"\\\\\\n"}',
+    "12345",
+    "null",
+    '[[[]],[{}],{"a":[{"b":{}}]}]',
+  ];
+
+  it.each(samples)("matches JSON.parse for %j split into single bytes", (json) => {
+    expect(parseByteByByte(json)).toEqual(JSON.parse(json));
+  });
+
+  it("reports the same errors as a complete buffer", () => {
+    for (const json of ['{"a":1,\n"a":2}', '{"a":1,}', "[1] x", '["ab', "[tru", "[01]"]) {
+      const whole = catchError(() => new StrictJsonTokenizer().parse(Buffer.from(json)));
+      const chunked = catchError(() => parseByteByByte(json));
+      expect(chunked.details).toEqual(whole.details);
+    }
+  });
+
+  it("reports violations as soon as the offending bytes arrive", () => {
+    const tokenizer = new StrictJsonTokenizer();
+    tokenizer.write(Buffer.from('{"a":1,'));
+    expect(() => tokenizer.write(Buffer.from('"a":'))).toThrow(DuplicateKeyError);
+  });
+});
+
+describe("StreamingJsonParser", () => {
+  it("resolves the fully built value", async () => {
+    await expect(
+      parseJsonStream(toStream('{"items":[{"id":1},', '{"id":2}],"name":"ż', 'ółw"}')),
+    ).resolves.toEqual({ items: [{ id: 1 }, { id: 2 }], name: "żółw" });
+  });
+
+  it("resolves a null document", async () => {
+    await expect(parseJsonStream(toStream("nu", "ll"))).resolves.toBeNull();
+  });
+
+  it("pushes the value as a single object", async () => {
+    const parser = new StreamingJsonParser();
+    const values: unknown[] = [];
+    parser.on("data", (value) => values.push(value));
+    const finished = new Promise((resolve) => parser.on("end", resolve));
+    parser.write('{"a":');
+    parser.end("[1,2]}");
+    await finished;
+
+    expect(values).toEqual([{ a: [1, 2] }]);
+  });
+
+  it("detects duplicates after escape decoding", async () => {
+    await expect(parseJsonStream(toStream('{"a":1,"\\u00', '61":2}'))).rejects.toThrow(
+      DuplicateKeyError,
+    );
+  });
+
+  it("keeps a separate key set for every object", async () => {
+    await expect(parseJsonStream(toStream('{"x":{"k":1},"k":2}'))).resolves.toEqual({
+      x: { k: 1 },
+      k: 2,
+    });
+    await expect(parseJsonStream(toStream('{"a":{"b":1},', '"a":2}'))).rejects.toThrow(
+      DuplicateKeyError,
+    );
+  });
+
+  it("does not share state between instances", async () => {
+    await expect(parseJsonStream(toStream('{"a":1}'))).resolves.toEqual({ a: 1 });
+    await expect(parseJsonStream(toStream('{"a":1}'))).resolves.toEqual({ a: 1 });
+  });
+
+  it("reports locations relative to the whole stream", async () => {
+    const error = (await parseJsonStream(
+      toStream('{\n"user":{"name":"a",', '\n"__proto__":{}}}'),
+    ).catch((e) => e)) as PrototypePollutionError;
+
+    expect(error).toBeInstanceOf(PrototypePollutionError);
+    expect(error.details).toMatchObject({
+      path: "$.user.__proto__",
+      pointer: "/user/__proto__",
+      position: 22,
+      line: 3,
+      column: 1,
+    });
+  });
+
+  it("rejects incomplete documents", async () => {
+    const error = await parseJsonStream(toStream('{"a":[1,2')).catch((e) => e);
+    expect(error).toBeInstanceOf(InvalidJsonError);
+    expect(error.details.syntaxError).toBe("UnexpectedEndOfInput");
+  });
+
+  it("enforces maxBodySizeBytes as bytes arrive", async () => {
+    await expect(
+      parseJsonStream(toStream('{"data":"', "x".repeat(64), '"}'), { maxBodySizeBytes: 32 }),
+    ).rejects.toThrow(BodyTooLargeError);
+  });
+
+  it("validates payloads above the streaming threshold", async () => {
+    const json = `{"items":[${'{"id":1},'.repeat(100)}{"id":1,"id":2}]}`;
+    expect(() => parseStrictJson(json, { streamingThreshold: 64 })).toThrow(DuplicateKeyError);
+    await expect(
+      parseStrictJsonAsync(json, { streamingThreshold: 64, chunkSize: 16 }),
+    ).rejects.toThrow(DuplicateKeyError);
+  });
+});
+
+describe("StreamingJsonParser events", () => {
+  const collectEvents = async (chunks: string[], options = {}, streamOptions = {}) => {
+    const parser = new StreamingJsonParser(options, { emitEvents: true, ...streamOptions });
+    const events: unknown[] = [];
+    for (const type of ["startObject", "endObject", "startArray", "endArray", "key", "value"]) {
+      parser.on(type, (event) => events.push([type, event]));
+    }
+    const done = new Promise((resolve, reject) => {
+      parser.on("finish", resolve);
+      parser.on("error", reject);
+    });
+    parser.resume();
+    for (const chunk of chunks) parser.write(chunk);
+    parser.end();
+    await done;
+    return { events, result: parser.result };
+  };
+
+  it("emits every token with its path and byte offset", async () => {
+    const { events } = await collectEvents(['{"a":[1,', '"x"],"b.c":{}}']);
+    expect(events).toEqual([
+      ["startObject", { path: "$", offset: 0 }],
+      ["key", { path: "$.a", offset: 1, key: "a" }],
+      ["startArray", { path: "$.a", offset: 5 }],
+      ["value", { path: "$.a[0]", offset: 6, value: 1 }],
+      ["value", { path: "$.a[1]", offset: 8, value: "x" }],
+      ["endArray", { path: "$.a", offset: 11 }],
+      ["key", { path: '$["b.c"]', offset: 13, key: "b.c" }],
+      ["startObject", { path: '$["b.c"]', offset: 19 }],
+      ["endObject", { path: '$["b.c"]', offset: 20 }],
+      ["endObject", { path: "$", offset: 21 }],
+    ]);
+  });
+
+  it("validates without building the value", async () => {
+    const { events, result } = await collectEvents(
+      ['{"records":[{"amount":2},{"amount":3}]}'],
+      {},
+      { materialize: false },
+    );
+    const total = events
+      .filter(([type]) => type === "value")
+      .reduce((sum: number, [, event]) => sum + (event as { value: number }).value, 0);
+
+    expect(total).toBe(5);
+    expect(result).toBeUndefined();
+  });
+
+  it("applies the strict checks to evented streams", async () => {
+    await expect(
+      collectEvents(['{"records":[{"id":1,', '"id":2}]}'], {}, { materialize: false }),
+    ).rejects.toThrow(DuplicateKeyError);
+    await expect(collectEvents(['[[["deep"]]]'], { maxDepth: 2 })).rejects.toThrow(
+      DepthLimitError,
+    );
+  });
+});
+
+describe("streamJsonItems", () => {
+  it("yields every matched element", async () => {
+    const json = '{"meta":{"count":3},"records":[{"id":1},null,{"id":3,"tags":["a"]}]}';
+    await expect(collectItems(streamJsonItems(toStream(json), "$.records[*]"))).resolves.toEqual([
+      { id: 1 },
+      null,
+      { id: 3, tags: ["a"] },
+    ]);
+  });
+
+  it("handles items split into single-byte chunks", async () => {
+    const json = '{"records":[{"name":"żółw","n":12.5} , {"name":"a b"}]}';
+    const chunks = [...Buffer.from(json)].map((byte) => Buffer.from([byte]));
+    await expect(
+      collectItems(streamJsonItems(Readable.from(chunks), "$.records[*]")),
+    ).resolves.toEqual([{ name: "żółw", n: 12.5 }, { name: "a b" }]);
+  });
+
+  it("applies the key policy and depth relative to each item", async () => {
+    const json = '{"meta":{"x":1},"records":[{"id":1,"name":"a"},{"id":2}]}';
+    await expect(
+      collectItems(streamJsonItems(toStream(json), "$.records[*]", { whitelist: ["id", "name"], maxDepth: 2 })),
+    ).resolves.toEqual([{ id: 1, name: "a" }, { id: 2 }]);
+
+    const nested = '{"records":[{"id":1},{"deep":{"x":{"y":1}}}]}';
+    await expect(
+      collectItems(streamJsonItems(toStream(nested), "$.records[*]", { maxDepth: 2 })),
+    ).rejects.toThrow(DepthLimitError);
+  });
+
+  it("reports item violations after yielding the valid items before them", async () => {
+    const json = '{"records":[\n{"id":1},\n{"id":2,"id":3}]}';
+    const items: unknown[] = [];
+    let error: StrictJsonError | undefined;
+    try {
+      for await (const item of streamJsonItems(toStream(json), "$.records[*]")) items.push(item);
+    } catch (e) {
+      error = e as StrictJsonError;
+    }
+
+    expect(items).toEqual([{ id: 1 }]);
+    expect(error).toBeInstanceOf(DuplicateKeyError);
+    expect(error?.details).toMatchObject({ path: "$.id", position: 31, line: 3, column: 9 });
+  });
+
+  it("pushes items with their path from StreamingJsonParser", async () => {
+    const parser = new StreamingJsonParser({}, { itemPath: "$.data.rows[*]" });
+    toStream('{"data":{"rows":[1,null,"x"]}}').pipe(parser);
+    const items = await collectItems(parser);
+
+    expect(items).toEqual([
+      { path: "$.data.rows[0]", value: 1 },
+      { path: "$.data.rows[1]", value: null },
+      { path: "$.data.rows[2]", value: "x" },
+    ]);
+    expect(parser.result).toBeUndefined();
+  });
+
+  it("applies the limits and protections outside the items", async () => {
+    const deep = '{"a":{"b":{"c":{"records":[{"id":1}]}}}}';
+    await expect(
+      collectItems(streamJsonItems(toStream(deep), "$.a.b.c.records[*]", { maxDepth: 2 })),
+    ).rejects.toThrow(DepthLimitError);
+
+    const wide = '{"a":1,"b":2,"c":3,"records":[{"id":1}]}';
+    await expect(
+      collectItems(streamJsonItems(toStream(wide), "$.records[*]", { maxKeysPerObject: 2 })),
+    ).rejects.toThrow(KeysPerObjectLimitError);
+    await expect(
+      collectItems(streamJsonItems(toStream('{"records":[1,2,3]}'), "$.records[*]", { maxArrayLength: 2 })),
+    ).rejects.toThrow(ArrayLengthLimitError);
+
+    const polluted = '{"__proto__":{"admin":true},"records":[{"id":1}]}';
+    await expect(collectItems(streamJsonItems(toStream(polluted), "$.records[*]"))).rejects.toThrow(
+      PrototypePollutionError,
+    );
+  });
+
+  it("rejects syntax errors outside the items", async () => {
+    await expect(
+      collectItems(streamJsonItems(toStream('{"records":[{"id":1}],}'), "$.records[*]")),
+    ).rejects.toThrow(InvalidJsonError);
+  });
+});
+
+describe("Streaming error handlers", () => {
+  it("routes stream errors to the same handlers as parseStrictJsonAsync", async () => {
+    const onDuplicateKey = vi.fn();
+    const onPrototypePollution = vi.fn();
+    const onError = vi.fn();
+    const options = { onDuplicateKey, onPrototypePollution, onError };
+
+    await expect(parseJsonStream(toStream('{"a":1,', '"a":2}'), options)).rejects.toThrow(
+      DuplicateKeyError,
+    );
+    await expect(
+      parseJsonStream(toStream('{"__proto__":{}}'), options),
+    ).rejects.toThrow(PrototypePollutionError);
+
+    expect(onDuplicateKey).toHaveBeenCalledTimes(1);
+    expect(onDuplicateKey.mock.calls[0][0].details).toMatchObject({ path: "$.a", line: 1 });
+    expect(onPrototypePollution).toHaveBeenCalledTimes(1);
+    expect(onError).toHaveBeenCalledTimes(2);
+  });
+
+  it("reports body size, item and tolerated duplicate errors", async () => {
+    const onBodyTooLarge = vi.fn();
+    const onDuplicateKeyWarning = vi.fn();
+    await expect(
+      parseJsonStream(toStream('{"a":"', "x".repeat(64), '"}'), {
+        maxBodySizeBytes: 32,
+        onBodyTooLarge,
+      }),
+    ).rejects.toThrow(BodyTooLargeError);
+    await expect(
+      parseJsonStream(toStream('{"a":1,"a":2}'), {
+        duplicateKeyPolicy: "last-wins",
+        onDuplicateKeyWarning,
+      }),
+    ).resolves.toEqual({ a: 2 });
+
+    const onDepthError = vi.fn();
+    const items = streamJsonItems(toStream('{"records":[[[1]]]}'), "$.records[*]", {
+      maxDepth: 1,
+      onError: onDepthError,
+    });
+    await expect(items.next()).rejects.toThrow(DepthLimitError);
+
+    expect(onBodyTooLarge).toHaveBeenCalledTimes(1);
+    expect(onDuplicateKeyWarning).toHaveBeenCalledTimes(1);
+    expect(onDepthError.mock.calls[0][0]).toBeInstanceOf(DepthLimitError);
+  });
+
+  it("reports duplicates tolerated inside and outside streamed items", async () => {
+    const onDuplicateKeyWarning = vi.fn();
+    const options = { duplicateKeyPolicy: "last-wins" as const, onDuplicateKeyWarning };
+    await expect(
+      collectItems(streamJsonItems(toStream('{"records":[{"id":1,"id":2}]}'), "$.records[*]", options)),
+    ).resolves.toEqual([{ id: 2 }]);
+    await expect(
+      collectItems(streamJsonItems(toStream('{"x":1,"x":2,"records":[1]}'), "$.records[*]", options)),
+    ).resolves.toEqual([1]);
+
+    expect(onDuplicateKeyWarning).toHaveBeenCalledTimes(2);
+    expect(onDuplicateKeyWarning.mock.calls[0][0].details).toMatchObject({ key: "id", path: "$.id" });
+    expect(onDuplicateKeyWarning.mock.calls[1][0].details).toMatchObject({ key: "x", path: "$.x" });
+
+    const parser = new StreamingJsonParser(options, { itemPath: "$.records[*]" });
+    toStream('{"records":[{"id":1,"id":2}]}').pipe(parser);
+    await collectItems(parser);
+    expect(parser.warnings.map((warning) => warning.details.path)).toEqual(["$.id"]);
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  parseStrictJson,
+  parseStrictJsonAsync,
+  ArrayLengthLimitError,
+  KeyLengthLimitError,
+  KeysPerObjectLimitError,
+  StringLengthLimitError,
+  TotalNodesLimitError,
+} from "../src/index.js";
+import { StreamingJsonParser } from "../src/core/streaming-parser.js";
+import { failWith } from "./helpers.js";
+
+describe("Structural limits", () => {
+  it("should accept documents exactly at every limit", () => {
+    const json = '{"ab":[1,2],"cd":"xyz"}';
+    expect(
+      parseStrictJson(json, {
+        maxKeysPerObject: 2,
+        maxArrayLength: 2,
+        maxStringLength: 3,
+        maxKeyLength: 2,
+        maxTotalNodes: 5,
+      }),
+    ).toEqual(JSON.parse(json));
+  });
+
+  it("should limit keys per object", () => {
+    const error = failWith('{"a":1,"b":{"c":1,"d":2,"e":3}}', { maxKeysPerObject: 2 });
+    expect(error).toBeInstanceOf(KeysPerObjectLimitError);
+    expect(error.details).toMatchObject({
+      code: "STRICT_JSON_KEYS_PER_OBJECT_LIMIT",
+      path: "$.b",
+      pointer: "/b",
+      limit: 2,
+      position: 24,
+    });
+  });
+
+  it("should limit array length", () => {
+    const error = failWith('{"items":[1,2,3,4]}', { maxArrayLength: 3 });
+    expect(error).toBeInstanceOf(ArrayLengthLimitError);
+    expect(error.details).toMatchObject({
+      code: "STRICT_JSON_ARRAY_LENGTH_LIMIT",
+      path: "$.items",
+      pointer: "/items",
+      limit: 3,
+      position: 16,
+    });
+  });
+
+  it("should limit string values in characters, not keys", () => {
+    expect(parseStrictJson('{"longer key":"żółw"}', { maxStringLength: 4 })).toEqual({
+      "longer key": "żółw",
+    });
+
+    const error = failWith('{"list":["ok","too long"]}', { maxStringLength: 4 });
+    expect(error).toBeInstanceOf(StringLengthLimitError);
+    expect(error.details).toMatchObject({
+      code: "STRICT_JSON_STRING_LENGTH_LIMIT",
+      path: "$.list[1]",
+      pointer: "/list/1",
+      limit: 4,
+    });
+  });
+
+  it("should limit key length without echoing the key", () => {
+    const longKey = "k".repeat(1000);
+    const error = failWith(`{"user":{"${longKey}":1}}`, { maxKeyLength: 64 });
+    expect(error).toBeInstanceOf(KeyLengthLimitError);
+    expect(error.details).toMatchObject({
+      code: "STRICT_JSON_KEY_LENGTH_LIMIT",
+      path: "$.user",
+      pointer: "/user",
+      limit: 64,
+    });
+    expect(error.details.key).toBeUndefined();
+    expect(error.message).not.toContain(longKey);
+  });
+
+  it("should count every value, containers included, towards total nodes", () => {
+    expect(parseStrictJson('{"a":[1,2]}', { maxTotalNodes: 4 })).toEqual({ a: [1, 2] });
+
+    const error = failWith('{"a":[1,2],"b":{}}', { maxTotalNodes: 4 });
+    expect(error).toBeInstanceOf(TotalNodesLimitError);
+    expect(error.details).toMatchObject({
+      code: "STRICT_JSON_TOTAL_NODES_LIMIT",
+      path: "$.b",
+      limit: 4,
+    });
+  });
+
+  it("should report each exceeded limit once when collecting violations", () => {
+    const error = failWith('{"a":[1,2,3,4],"b":[5,6,7]}', {
+      maxArrayLength: 2,
+      collectAllViolations: true,
+    });
+    expect(error.details.violations?.map(({ path }) => path)).toEqual(["$.a", "$.b"]);
+  });
+
+  it("should invoke the dedicated hook and onError", async () => {
+    const onArrayLengthLimit = vi.fn();
+    const onInvalidJson = vi.fn();
+    const onError = vi.fn();
+
+    await expect(
+      parseStrictJsonAsync("[1,2]", {
+        maxArrayLength: 1,
+        onArrayLengthLimit,
+        onInvalidJson,
+        onError,
+      }),
+    ).rejects.toThrow(ArrayLengthLimitError);
+
+    expect(onArrayLengthLimit).toHaveBeenCalledTimes(1);
+    expect(onArrayLengthLimit.mock.calls[0][0]).toBeInstanceOf(ArrayLengthLimitError);
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(onInvalidJson).not.toHaveBeenCalled();
+  });
+
+  it("should not serve a cached result across different limits", () => {
+    const json = '{"a":1,"b":2,"c":3}';
+    expect(parseStrictJson(json)).toEqual({ a: 1, b: 2, c: 3 });
+    expect(() => parseStrictJson(json, { maxKeysPerObject: 2 })).toThrow(KeysPerObjectLimitError);
+  });
+
+  it("should enforce key limits in the streaming parser", async () => {
+    const parser = new StreamingJsonParser({ maxKeysPerObject: 1 });
+    const failure = new Promise((resolve) => parser.on("error", resolve));
+    parser.write('{"a":1,"b":2}');
+    parser.end();
+
+    expect(await failure).toBeInstanceOf(KeysPerObjectLimitError);
+  });
+});
@@ -0,0 +1,174 @@
+import { describe, expect, it } from "vitest";
+import { materializeStrictJson } from "../src/core/tokenizer.js";
+import {
+  DepthLimitError,
+  DuplicateKeyError,
+  InvalidJsonError,
+  PrototypePollutionError,
+} from "../src/core/errors.js";
+
+const parse = (json: string) => materializeStrictJson(Buffer.from(json, "utf8"));
+
+describe("materializeStrictJson", () => {
+  it("matches JSON.parse for valid documents", () => {
+    const samples = [
+      '{"a":1,"b":[true,false,null],"c":{"d":"e"}}',
+      "[]",
+      "{}",
+      " \t\r\n[ 1 , -2.5e+3 , 0.125 , 1E2 , -0 ] ",
+      '"plain string"',
+      "42",
+      "null",
+      '{"unicode":"\\u00e9\\u0041\\ud83d\\ude00","raw":"żółw 🐢"}',
+      '{"escapes":"\\"\\\\\\/\\b\\f\\n\\r\\t"}',
+      '[[[]],[{}],{"a":[{"b":{}}]}]',
+    ];
+
+    for (const sample of samples) {
+      expect(parse(sample)).toEqual(JSON.parse(sample));
+    }
+  });
+
+  it.each([
+    ["", "empty input"],
+    ["{", "unterminated object"],
+    ['{"a":1,}', "trailing comma in object"],
+    ["[1,]", "trailing comma in array"],
+    ["[01]", "leading zero"],
+    ["[1.]", "missing fraction digits"],
+    ["[1e]", "missing exponent digits"],
+    ["[.5]", "missing integer part"],
+    ["[+1]", "explicit plus sign"],
+    ['["a\tb"]', "raw control character in string"],
+    ['["\\x"]', "invalid escape"],
+    ['["\\u12g4"]', "invalid unicode escape"],
+    ["[tru]", "truncated literal"],
+    ["{a:1}", "unquoted key"],
+    ['{"a" 1}', "missing colon"],
+    ['{"a":1 "b":2}', "missing comma"],
+    ["[1] [2]", "trailing content"],
+    ["// comment\n{}", "comment"],
+    ["﻿{}", "byte order mark"],
+  ])("rejects %j (%s)", (json) => {
+    expect(() => parse(json)).toThrow(InvalidJsonError);
+  });
+
+  it("keeps __proto__ as an own property when protection is disabled", () => {
+    const result = materializeStrictJson(Buffer.from('{"__proto__":{"isAdmin":true}}'), {
+      enablePrototypePollutionProtection: false,
+    }) as Record<string, unknown>;
+
+    expect(Object.getPrototypeOf(result)).toBe(Object.prototype);
+    expect(Object.keys(result)).toEqual(["__proto__"]);
+    expect((result as { isAdmin?: boolean }).isAdmin).toBeUndefined();
+  });
+
+  it("detects duplicates after escape decoding", () => {
+    expect(() => parse('{"a":1,"\\u0061":2}')).toThrow(DuplicateKeyError);
+  });
+
+  it("reports the path of nested violations", () => {
+    try {
+      parse('{"items":[{"ok":1},{"id":1,"id":2}]}');
+      expect.fail("Should have thrown DuplicateKeyError");
+    } catch (error) {
+      expect(error).toBeInstanceOf(DuplicateKeyError);
+      expect((error as DuplicateKeyError).details.path).toBe("$.items[1].id");
+    }
+
+    try {
+      parse('{"a":[{"b":{"__proto__":{}}}]}');
+      expect.fail("Should have thrown PrototypePollutionError");
+    } catch (error) {
+      expect(error).toBeInstanceOf(PrototypePollutionError);
+      expect((error as PrototypePollutionError).path).toBe("$.a[0].b.__proto__");
+    }
+  });
+
+  it("counts primitive values towards the depth limit", () => {
+    expect(() =>
+      materializeStrictJson(Buffer.from("[[[1]]]"), { maxDepth: 2 }),
+    ).toThrow(DepthLimitError);
+    expect(
+      materializeStrictJson(Buffer.from("[[[]]]"), { maxDepth: 2 }),
+    ).toEqual([[[]]]);
+  });
+
+  it("does not overflow the call stack on deep nesting within the limit", () => {
+    const depth = 20000;
+    const json = "[".repeat(depth) + "]".repeat(depth);
+    expect(() =>
+      materializeStrictJson(Buffer.from(json), { maxDepth: depth }),
+    ).not.toThrow();
+  });
+});
+
+describe("error locations", () => {
+  const locate = (json: string, options = {}) => {
+    try {
+      materializeStrictJson(Buffer.from(json, "utf8"), options);
+    } catch (error) {
+      return (error as InvalidJsonError).details;
+    }
+    throw new Error("Expected a strict JSON error");
+  };
+
+  it.each([
+    ['{"a":1,}', "PropertyNameExpected", 7, 1, 8],
+    ['{\n  "a": 1\n  "b": 2\n}', "CommaExpected", 13, 3, 3],
+    ['{"a" 1}', "ColonExpected", 5, 1, 6],
+    ["[1,", "UnexpectedEndOfInput", 3, 1, 4],
+    ["[1] x", "EndOfInputExpected", 4, 1, 5],
+    ["[tru]", "InvalidSymbol", 4, 1, 5],
+    ["[01]", "InvalidNumberFormat", 2, 1, 3],
+    ['["ab', "UnexpectedEndOfString", 4, 1, 5],
+    ['["\\q"]', "InvalidEscapeCharacter", 2, 1, 3],
+    ['["\n"]', "InvalidCharacter", 2, 1, 3],
+    ["[?]", "ValueExpected", 1, 1, 2],
+  ])("reports %j as %s at offset %i (line %i, column %i)", (json, kind, position, line, column) => {
+    const details = locate(json);
+    expect(details).toMatchObject({
+      code: "STRICT_JSON_INVALID_JSON",
+      syntaxError: kind,
+      position,
+      line,
+      column,
+    });
+    expect(details.message).toMatch(/^Invalid JSON: /);
+    expect(details.message).toContain(`at line ${line}, column ${column}`);
+  });
+
+  it("counts columns in characters while position stays in bytes", () => {
+    const details = locate('{"żółw":1,"żółw":2}');
+    expect(details).toMatchObject({ position: 13, line: 1, column: 11 });
+  });
+
+  it("locates every violation kind at its key or value", () => {
+    expect(locate('{\n"a":1,\n"a":2}')).toMatchObject({
+      code: "STRICT_JSON_DUPLICATE_KEY",
+      position: 9,
+      line: 3,
+      column: 1,
+    });
+    expect(locate('{"x":{"__proto__":1}}')).toMatchObject({
+      code: "STRICT_JSON_PROTOTYPE_POLLUTION",
+      position: 6,
+    });
+    expect(locate('{"x":[[1]]}', { maxDepth: 2 })).toMatchObject({
+      code: "STRICT_JSON_DEPTH_LIMIT",
+      position: 7,
+    });
+    expect(locate('{"ok":1,"secret":2}', { blacklist: ["secret"] })).toMatchObject({
+      position: 8,
+      column: 9,
+    });
+  });
+
+  it("locates collected violations and warnings", () => {
+    const details = locate('{"a":1,\n"a":2,\n"__proto__":3}', { collectAllViolations: true });
+    expect(details.violations?.map(({ line, column }) => [line, column])).toEqual([
+      [2, 1],
+      [3, 1],
+    ]);
+  });
+});
@@ -0,0 +1,198 @@
+import { join } from "node:path";
+import { ServiceUnavailableException } from "@nestjs/common";
+import { afterAll, describe, expect, it, vi } from "vitest";
+import { registerStrictJsonFastify } from "../src/adapters/fastify.js";
+import { internPatterns } from "../src/core/parse-worker.js";
+import { getCompiledKeyPolicy } from "../src/core/pattern-matcher.js";
+import {
+  DepthLimitError,
+  DuplicateKeyError,
+  InvalidJsonError,
+  ParseTimeoutError,
+  StrictJsonWorkerPool,
+  WorkerPoolError,
+  closeWorkerPools,
+  parseStrictJsonAsync,
+} from "../src/index.js";
+
+const slowWorker = join(__dirname, "fixtures", "slow-worker.cjs");
+const workerScript = join(__dirname, "fixtures", "ts-worker.cjs");
+const missingWorker = join(__dirname, "fixtures", "missing-worker.cjs");
+
+afterAll(async () => {
+  await closeWorkerPools();
+});
+
+describe("Worker pool", () => {
+  const workerOptions = { enableWorkerPool: true, workerThreshold: 64, workerScript };
+  const large = (inner: string) => `{"padding":"${"x".repeat(64)}",${inner}}`;
+
+  it("parses payloads above the threshold in a worker", async () => {
+    const json = large('"items":[1,2,{"a":null}],"big":123456789012345678901');
+    await expect(
+      parseStrictJsonAsync(json, { ...workerOptions, numberMode: "bigint" }),
+    ).resolves.toEqual({
+      padding: "x".repeat(64),
+      items: [1, 2, { a: null }],
+      big: 123456789012345678901n,
+    });
+  });
+
+  it("rethrows worker errors as their original classes", async () => {
+    const onDuplicateKey = vi.fn();
+    const onError = vi.fn();
+    const error = await parseStrictJsonAsync(large('"a":1,"a":2'), {
+      ...workerOptions,
+      onDuplicateKey,
+      onError,
+    }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(DuplicateKeyError);
+    expect(error.details).toMatchObject({ path: "$.a", key: "a", line: 1, column: 85 });
+    expect(onDuplicateKey).toHaveBeenCalledWith(error);
+    expect(onError).toHaveBeenCalledWith(error);
+
+    await expect(
+      parseStrictJsonAsync(large('"a":[[1]]'), { ...workerOptions, maxDepth: 2 }),
+    ).rejects.toThrow(DepthLimitError);
+    await expect(parseStrictJsonAsync(large('"a":'), workerOptions)).rejects.toThrow(
+      InvalidJsonError,
+    );
+  });
+
+  it("reports tolerated duplicates on the main thread", async () => {
+    const onDuplicateKeyWarning = vi.fn();
+    await expect(
+      parseStrictJsonAsync(large('"a":1,"a":2'), {
+        ...workerOptions,
+        duplicateKeyPolicy: "last-wins",
+        onDuplicateKeyWarning,
+      }),
+    ).resolves.toMatchObject({ a: 2 });
+
+    expect(onDuplicateKeyWarning).toHaveBeenCalledTimes(1);
+    expect(onDuplicateKeyWarning.mock.calls[0][0]).toBeInstanceOf(DuplicateKeyError);
+  });
+
+  it("rejects payloads when the queue is full", async () => {
+    const pool = new StrictJsonWorkerPool({
+      size: 1,
+      queueLimit: 1,
+      timeoutMs: 5000,
+      script: slowWorker,
+    });
+    try {
+      const results = await Promise.allSettled(
+        ["1", "2", "3"].map((payload) => pool.run(Buffer.from(payload))),
+      );
+
+      expect(results[0]).toEqual({ status: "fulfilled", value: { value: "1", warnings: [] } });
+      expect(results[1]).toEqual({ status: "fulfilled", value: { value: "2", warnings: [] } });
+      expect(results[2]).toMatchObject({
+        status: "rejected",
+        reason: { details: { code: "STRICT_JSON_WORKER_QUEUE_FULL" } },
+      });
+    } finally {
+      await pool.close();
+    }
+  });
+
+  it("terminates workers that exceed the timeout", async () => {
+    const pool = new StrictJsonWorkerPool({
+      size: 1,
+      queueLimit: 10,
+      timeoutMs: 50,
+      script: slowWorker,
+    });
+    try {
+      const error = await pool.run(Buffer.from("1")).catch((e) => e);
+      expect(error).toBeInstanceOf(WorkerPoolError);
+      expect(error.details.code).toBe("STRICT_JSON_WORKER_TIMEOUT");
+
+      // The terminated worker is replaced for the next payload
+      const next = await pool.run(Buffer.from("2")).catch((e) => e);
+      expect(next.details.code).toBe("STRICT_JSON_WORKER_TIMEOUT");
+    } finally {
+      await pool.close();
+    }
+  });
+
+  it("cancels waiting and running payloads when their signal is aborted", async () => {
+    const pool = new StrictJsonWorkerPool({
+      size: 1,
+      queueLimit: 10,
+      timeoutMs: 5000,
+      script: slowWorker,
+    });
+    try {
+      const controller = new AbortController();
+      const running = pool.run(Buffer.from("1"), { signal: controller.signal });
+      const waiting = pool.run(Buffer.from("2"), { signal: controller.signal });
+      const other = pool.run(Buffer.from("3"));
+      controller.abort();
+
+      await expect(running).rejects.toThrow(ParseTimeoutError);
+      await expect(waiting).rejects.toThrow(ParseTimeoutError);
+      await expect(other).resolves.toEqual({ value: "3", warnings: [] });
+    } finally {
+      await pool.close();
+    }
+  });
+
+  it("fails payloads whose worker cannot start", async () => {
+    const error = await parseStrictJsonAsync(large('"a":1'), {
+      ...workerOptions,
+      workerScript: missingWorker,
+      enableCache: false,
+    }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(WorkerPoolError);
+    expect(error.details.code).toBe("STRICT_JSON_WORKER_FAILED");
+  });
+
+  it("compiles the key policy of cloned options once per worker", async () => {
+    const whitelist = ["padding", "a", "b"];
+    const [first, second] = [structuredClone(whitelist), structuredClone(whitelist)].map(
+      internPatterns,
+    );
+    expect(second).toBe(first);
+    expect(getCompiledKeyPolicy(second)).toBe(getCompiledKeyPolicy(first));
+
+    const options = { ...workerOptions, whitelist, enableCache: false };
+    await expect(parseStrictJsonAsync(large('"a":1'), options)).resolves.toMatchObject({ a: 1 });
+    await expect(parseStrictJsonAsync(large('"c":1'), options)).rejects.toMatchObject({
+      details: { code: "STRICT_JSON_KEY_NOT_ALLOWED", path: "$.c" },
+    });
+  });
+
+  it("keeps small payloads on the main thread", async () => {
+    await expect(
+      parseStrictJsonAsync('{"a":1}', { ...workerOptions, workerScript: slowWorker }),
+    ).resolves.toEqual({ a: 1 });
+  });
+
+  it("offloads Fastify payloads and maps pool failures to 503", async () => {
+    type Parser = Parameters<Parameters<typeof registerStrictJsonFastify>[0]["addContentTypeParser"]>[2];
+    const parse = (options: object, body: string) => {
+      let parser: Parser | undefined;
+      registerStrictJsonFastify({ addContentTypeParser: (_type, _opts, p) => (parser = p) }, options);
+      return new Promise<{ err: Error | null; value?: unknown }>((resolve) =>
+        parser?.({}, Buffer.from(body), (err, value) => resolve({ err, value })),
+      );
+    };
+
+    await expect(parse(workerOptions, large('"a":1'))).resolves.toMatchObject({
+      err: null,
+      value: { a: 1 },
+    });
+
+    const { err } = await parse(
+      { ...workerOptions, workerScript: missingWorker },
+      large('"b":1'),
+    );
+    expect(err).toBeInstanceOf(ServiceUnavailableException);
+    expect((err as ServiceUnavailableException).getResponse()).toMatchObject({
+      code: "STRICT_JSON_WORKER_FAILED",
+    });
+  });
+});
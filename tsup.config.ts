@@ -1,7 +1,8 @@
 import { defineConfig } from "tsup"
 
 export default defineConfig({
-  entry: ["src/index.ts"],
+  // The parse worker is loaded by path, so it is bundled as its own entry
+  entry: { index: "src/index.ts", "parse-worker": "src/core/parse-worker.ts" },
   format: ["cjs", "esm"],
   outExtension({ format }) {
     return { js: format === "esm" ? ".mjs" : ".cjs" }
@@ -13,4 +14,5 @@ export default defineConfig({
   splitting: false,
   external: ["@nestjs/common", "@nestjs/core"],
   cjsInterop: true,
+  shims: true,
 })